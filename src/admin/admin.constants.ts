@@ -0,0 +1 @@
+export const ADMIN_URL = 'admin';
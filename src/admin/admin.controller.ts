@@ -0,0 +1,35 @@
+import { Body, Controller, Get, HttpCode, Post, UseGuards, ValidationPipe } from '@nestjs/common';
+
+import { ADMIN_URL } from './admin.constants';
+import { ReprocessEpochsDto } from './admin.dto';
+import { AdminAuthGuard } from './admin.guard';
+import { AdminService } from './admin.service';
+
+@Controller(ADMIN_URL)
+@UseGuards(AdminAuthGuard)
+export class AdminController {
+  constructor(private adminService: AdminService) {}
+
+  @Post('pause')
+  @HttpCode(200)
+  pause() {
+    return this.adminService.pause();
+  }
+
+  @Post('resume')
+  @HttpCode(200)
+  resume() {
+    return this.adminService.resume();
+  }
+
+  @Post('reprocess')
+  @HttpCode(200)
+  reprocess(@Body(new ValidationPipe({ transform: true })) body: ReprocessEpochsDto) {
+    return this.adminService.reprocess(body.from, body.to);
+  }
+
+  @Get('queue')
+  queue() {
+    return this.adminService.getStatus();
+  }
+}
@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class ReprocessEpochsDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  public from!: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  public to?: number;
+}
@@ -0,0 +1,26 @@
+import { timingSafeEqual } from 'crypto';
+
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+
+/**
+ * Allows requests with `Authorization: Bearer <ADMIN_API_TOKEN>` header only
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  constructor(private config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const token = this.config.get('ADMIN_API_TOKEN');
+    if (!token) throw new ForbiddenException('Admin API is disabled');
+    const request = context.switchToHttp().getRequest();
+    const [type, value] = String(request.headers?.authorization ?? '').split(' ');
+    const expected = Buffer.from(token);
+    const received = Buffer.from(value ?? '');
+    if (type != 'Bearer' || expected.length != received.length || !timingSafeEqual(expected, received)) {
+      throw new UnauthorizedException();
+    }
+    return true;
+  }
+}
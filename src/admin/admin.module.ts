@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+
+import { BackfillModule } from 'backfill';
+import { LeaderElectionModule } from 'common/leader-election';
+import { ClickhouseModule } from 'storage/clickhouse';
+
+import { InspectorModule } from '../inspector';
+import { AdminController } from './admin.controller';
+import { AdminAuthGuard } from './admin.guard';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [ClickhouseModule, InspectorModule, BackfillModule, LeaderElectionModule],
+  providers: [AdminService, AdminAuthGuard],
+  controllers: [AdminController],
+})
+export class AdminModule {}
@@ -0,0 +1,78 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { BadRequestException, ConflictException, Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { BackfillQueue, BackfillService } from 'backfill';
+import { Epoch } from 'common/consensus-provider/types';
+import { range } from 'common/functions/range';
+import { LeaderElectionService } from 'common/leader-election';
+import { PrometheusService } from 'common/prometheus';
+import { ClickhouseService } from 'storage';
+
+import { InspectorService, ReprocessingReason } from '../inspector';
+
+export interface AdminStatus extends BackfillQueue {
+  paused: boolean;
+}
+
+@Injectable()
+export class AdminService {
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly storage: ClickhouseService,
+    protected readonly inspectorService: InspectorService,
+    protected readonly backfillService: BackfillService,
+    protected readonly leaderElection: LeaderElectionService,
+  ) {}
+
+  /**
+   * Pauses the main loop and backfill workers. Epochs being processed are completed
+   */
+  public pause(): AdminStatus {
+    this.checkLeader();
+    this.inspectorService.pause();
+    this.backfillService.pause();
+    return this.getStatus();
+  }
+
+  public resume(): AdminStatus {
+    this.checkLeader();
+    this.inspectorService.resume();
+    this.backfillService.resume();
+    return this.getStatus();
+  }
+
+  /**
+   * Removes stored data of epochs in the range and queues them to be processed again
+   */
+  public async reprocess(from: Epoch, to: Epoch = from): Promise<AdminStatus> {
+    this.checkLeader();
+    if (from > to) throw new BadRequestException(`Epochs range [${from}, ${to}] is empty`);
+    const lastProcessed = (await this.storage.getLastProcessedEpoch()).epoch;
+    // Removing the last processed epoch makes the main loop process it again concurrently with backfill workers
+    if (to >= lastProcessed) {
+      throw new BadRequestException(`Epochs range [${from}, ${to}] must end before the last processed epoch [${lastProcessed}]`);
+    }
+    const inProgress = this.backfillService.getQueue().inProgress.filter((epoch) => epoch >= from && epoch <= to);
+    if (inProgress.length) {
+      throw new BadRequestException(`Epochs [${inProgress.join(', ')}] are being processed right now`);
+    }
+    this.logger.warn(`Removing stored data of epochs [${from}, ${to}] to reprocess them`);
+    await this.storage.deleteEpochs(from, to);
+    const epochs = range(from, to + 1);
+    this.prometheus.epochReprocessingCount.inc({ reason: ReprocessingReason.Manual }, epochs.length);
+    this.backfillService.enqueue(epochs);
+    return this.getStatus();
+  }
+
+  public getStatus(): AdminStatus {
+    return { paused: this.inspectorService.isPaused(), ...this.backfillService.getQueue() };
+  }
+
+  /**
+   * Epochs are processed by the leader only, so other instances can't manage processing
+   */
+  protected checkLeader(): void {
+    if (!this.leaderElection.isLeader()) throw new ConflictException('Instance is not the leader');
+  }
+}
@@ -0,0 +1,4 @@
+export * from './admin.constants';
+export * from './admin.controller';
+export * from './admin.module';
+export * from './admin.service';
@@ -2,15 +2,30 @@ import { Module } from '@nestjs/common';
 
 import { ConfigModule } from 'common/config';
 import { HealthModule } from 'common/health';
+import { LeaderElectionModule } from 'common/leader-election';
 import { LoggerModule } from 'common/logger';
 import { PrometheusModule } from 'common/prometheus';
 import { ClickhouseModule } from 'storage/clickhouse';
 
+import { AdminModule } from '../admin';
+import { BackfillModule } from '../backfill';
+import { GapRepairModule } from '../gap-repair';
 import { InspectorModule } from '../inspector';
 import { AppService } from './app.service';
 
 @Module({
-  imports: [LoggerModule, HealthModule, ConfigModule, PrometheusModule, ClickhouseModule, InspectorModule],
+  imports: [
+    LoggerModule,
+    HealthModule,
+    ConfigModule,
+    PrometheusModule,
+    ClickhouseModule,
+    LeaderElectionModule,
+    InspectorModule,
+    BackfillModule,
+    GapRepairModule,
+    AdminModule,
+  ],
   providers: [AppService],
 })
 export class AppModule {}
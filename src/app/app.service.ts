@@ -3,8 +3,11 @@ import { Inject, Injectable, LoggerService, OnApplicationBootstrap, OnModuleInit
 
 import * as buildInfo from 'build-info';
 import { ConfigService } from 'common/config';
+import { LeaderElectionService } from 'common/leader-election';
 import { PrometheusService } from 'common/prometheus';
 
+import { BackfillService } from '../backfill';
+import { GapRepairService } from '../gap-repair';
 import { InspectorService } from '../inspector';
 import { APP_NAME } from './app.constants';
 
@@ -14,7 +17,10 @@ export class AppService implements OnModuleInit, OnApplicationBootstrap {
     @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
     protected readonly configService: ConfigService,
     protected readonly prometheus: PrometheusService,
+    protected readonly leaderElection: LeaderElectionService,
     protected readonly inspectorService: InspectorService,
+    protected readonly backfillService: BackfillService,
+    protected readonly gapRepairService: GapRepairService,
   ) {}
 
   public async onModuleInit(): Promise<void> {
@@ -31,9 +37,13 @@ export class AppService implements OnModuleInit, OnApplicationBootstrap {
     this.logger.log(`Slot time: ${this.configService.get('CHAIN_SLOT_TIME_SECONDS')} seconds`);
     this.logger.log(`Epoch size: ${this.configService.get('FETCH_INTERVAL_SLOTS')} slots`);
     this.logger.log(`Dencun fork epoch: ${this.configService.get('DENCUN_FORK_EPOCH')}`);
+    this.logger.log(`Electra fork epoch: ${this.configService.get('ELECTRA_FORK_EPOCH')}`);
   }
 
   public async onApplicationBootstrap(): Promise<void> {
+    this.leaderElection.start();
     this.inspectorService.startLoop().then();
+    this.backfillService.start().catch((e) => this.logger.error(e));
+    this.gapRepairService.start();
   }
 }
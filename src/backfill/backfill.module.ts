@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+
+import { ConsensusProviderModule } from 'common/consensus-provider';
+import { LeaderElectionModule } from 'common/leader-election';
+import { ClickhouseModule } from 'storage/clickhouse';
+import { RegistryModule } from 'validators-registry';
+
+import { BackfillService } from './backfill.service';
+import { BackfillWorkerModule } from './worker';
+
+@Module({
+  imports: [ConsensusProviderModule, ClickhouseModule, RegistryModule, LeaderElectionModule, BackfillWorkerModule],
+  providers: [BackfillService],
+  exports: [BackfillService],
+})
+export class BackfillModule {}
@@ -0,0 +1,159 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { BeforeApplicationShutdown, Inject, Injectable, LoggerService } from '@nestjs/common';
+import { ContextIdFactory, ModuleRef } from '@nestjs/core';
+
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { Epoch } from 'common/consensus-provider/types';
+import { range } from 'common/functions/range';
+import { sleep } from 'common/functions/sleep';
+import { LeaderElectionService } from 'common/leader-election';
+import { ClickhouseService } from 'storage';
+import { RegistryService } from 'validators-registry';
+
+import { BackfillWorkerService } from './worker';
+
+export interface BackfillQueue {
+  queued: Epoch[];
+  inProgress: Epoch[];
+  // epochs which were not processed after `BACKFILL_MAX_ATTEMPTS` attempts
+  failed: Epoch[];
+}
+
+@Injectable()
+export class BackfillService implements BeforeApplicationShutdown {
+  protected queue: Epoch[] = [];
+  protected inProgress = new Set<Epoch>();
+  protected attempts = new Map<Epoch, number>();
+  protected failed = new Set<Epoch>();
+  protected workers = new Set<Promise<void>>();
+  protected lastWorkerId = 0;
+  protected stopped = false;
+  protected paused = false;
+
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly storage: ClickhouseService,
+    protected readonly registryService: RegistryService,
+    protected readonly leaderElection: LeaderElectionService,
+    protected readonly moduleRef: ModuleRef,
+  ) {}
+
+  /**
+   * Stops taking new epochs and waits until workers complete the epochs being processed
+   */
+  public async beforeApplicationShutdown(): Promise<void> {
+    this.stopped = true;
+    if (this.workers.size) this.logger.log(`Waiting for [${this.workers.size}] backfill workers to stop`);
+    await Promise.all(this.workers);
+  }
+
+  /**
+   * Enqueues configured epochs range. Already processed epochs are skipped
+   */
+  public async start(): Promise<void> {
+    if (!this.config.get('BACKFILL_ENABLED')) return;
+    const from = this.config.get('BACKFILL_START_EPOCH');
+    const to = this.config.get('BACKFILL_END_EPOCH');
+    if (from > to || to >= this.config.get('START_EPOCH')) {
+      this.logger.error(`Backfill range [${from}, ${to}] must not be empty and must end before START_EPOCH. Backfill is disabled`);
+      return;
+    }
+    const processed = new Set(await this.storage.getStoredEpochsInRange(from, to));
+    const toProcess = range(from, to + 1).filter((epoch) => !processed.has(epoch));
+    this.logger.log(`Backfill range [${from}, ${to}]. Epochs to process [${toProcess.length}]`);
+    this.enqueue(toProcess);
+  }
+
+  /**
+   * Adds epochs to the queue and spawns workers if needed.
+   * Previously failed epochs get all attempts again. Processing runs in background and never blocks the caller
+   */
+  public enqueue(epochs: Epoch[]): void {
+    if (this.stopped) return;
+    const known = new Set([...this.queue, ...this.inProgress]);
+    const toEnqueue = epochs.filter((epoch) => !known.has(epoch));
+    toEnqueue.forEach((epoch) => {
+      this.failed.delete(epoch);
+      this.attempts.delete(epoch);
+    });
+    this.queue.push(...toEnqueue);
+    this.queue.sort((a, b) => a - b);
+    while (this.workers.size < Math.min(this.config.get('BACKFILL_WORKERS'), this.queue.length)) {
+      const worker = this.runWorker(++this.lastWorkerId)
+        .catch((e) => this.logger.error(e))
+        .finally(() => this.workers.delete(worker));
+      this.workers.add(worker);
+    }
+  }
+
+  /**
+   * Workers stop taking new epochs until `resume` is called. Epochs being processed are completed
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public getQueue(): BackfillQueue {
+    return { queued: [...this.queue], inProgress: [...this.inProgress], failed: [...this.failed].sort((a, b) => a - b) };
+  }
+
+  protected async runWorker(id: number): Promise<void> {
+    this.logger.log(`Backfill worker [${id}] started`);
+    // each worker gets its own instances of duty services
+    const worker = await this.moduleRef.resolve(BackfillWorkerService, ContextIdFactory.create(), { strict: false });
+    try {
+      while (this.queue.length > 0 && !this.stopped) {
+        // epochs are processed by the leader only, because all instances share the same DB
+        if (this.paused || !this.leaderElection.isLeader()) {
+          await sleep(this.config.get('CHAIN_SLOT_TIME_SECONDS') * 1000);
+          continue;
+        }
+        const epoch = this.queue.shift();
+        this.inProgress.add(epoch);
+        try {
+          await this.fillRegistry(epoch);
+          await worker.process(epoch);
+          this.attempts.delete(epoch);
+        } catch (e) {
+          this.logger.error(e as any);
+          this.onFailure(id, epoch);
+          // We should make a gap before processing next epoch. This will avoid requests and logs spam
+          await sleep(this.config.get('CHAIN_SLOT_TIME_SECONDS') * 1000);
+        } finally {
+          this.inProgress.delete(epoch);
+        }
+      }
+    } finally {
+      this.logger.log(`Backfill worker [${id}] finished`);
+    }
+  }
+
+  protected onFailure(id: number, epoch: Epoch): void {
+    const attempts = (this.attempts.get(epoch) ?? 0) + 1;
+    const maxAttempts = this.config.get('BACKFILL_MAX_ATTEMPTS');
+    if (attempts < maxAttempts) {
+      this.logger.error(
+        `Backfill worker [${id}] failed to process epoch [${epoch}]. Attempt [${attempts}/${maxAttempts}]. It will be retried later`,
+      );
+      this.attempts.set(epoch, attempts);
+      this.queue.push(epoch);
+      return;
+    }
+    this.logger.error(`Backfill worker [${id}] failed to process epoch [${epoch}] after [${attempts}] attempts. It will not be retried`);
+    this.attempts.delete(epoch);
+    this.failed.add(epoch);
+  }
+
+  protected async fillRegistry(epoch: Epoch): Promise<void> {
+    if (this.registryService.isFilled()) return;
+    const slotTime = await this.clClient.getSlotTime(epoch * this.config.get('FETCH_INTERVAL_SLOTS'));
+    await this.registryService.updateKeysRegistry(slotTime);
+  }
+}
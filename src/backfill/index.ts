@@ -0,0 +1,2 @@
+export * from './backfill.module';
+export * from './backfill.service';
@@ -0,0 +1,44 @@
+import { Module, Scope } from '@nestjs/common';
+
+import { ConsensusProviderModule } from 'common/consensus-provider';
+import { BlockCacheModule } from 'common/consensus-provider/block-cache';
+import { DutyService } from 'duty';
+import { AttestationRewards, AttestationService } from 'duty/attestation';
+import { DutyRewards } from 'duty/duty.rewards';
+import { DutyRewardsVerification } from 'duty/duty.rewards-verification';
+import { ProposeRewards, ProposeService } from 'duty/propose';
+import { StateService } from 'duty/state';
+import { SummaryService } from 'duty/summary';
+import { SyncRewards, SyncService } from 'duty/sync';
+import { WithdrawalsService } from 'duty/withdrawal';
+import { ClickhouseModule } from 'storage/clickhouse';
+
+import { BackfillWorkerService } from './backfill-worker.service';
+
+// Duty services keep the processed epoch data in memory, so each worker needs its own instances of them
+const perWorker = [
+  DutyService,
+  DutyRewards,
+  DutyRewardsVerification,
+  StateService,
+  AttestationService,
+  AttestationRewards,
+  ProposeService,
+  ProposeRewards,
+  SyncService,
+  SyncRewards,
+  WithdrawalsService,
+  SummaryService,
+  BackfillWorkerService,
+].map((provider) => ({ provide: provider, useClass: provider, scope: Scope.REQUEST }));
+
+/**
+ * Provides backfill workers. Every worker is resolved with its own context id and gets its own instances of duty services,
+ * while connections to CL nodes and DB, blocks cache, metrics and validators registry are shared with the main application
+ */
+@Module({
+  imports: [ConsensusProviderModule, BlockCacheModule, ClickhouseModule],
+  providers: perWorker,
+  exports: [BackfillWorkerService],
+})
+export class BackfillWorkerModule {}
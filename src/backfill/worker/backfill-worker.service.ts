@@ -0,0 +1,44 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { BlockCacheService } from 'common/consensus-provider/block-cache';
+import { Epoch } from 'common/consensus-provider/types';
+import { TrackTask } from 'common/prometheus';
+import { DutyService } from 'duty';
+import { ClickhouseService } from 'storage';
+
+@Injectable()
+export class BackfillWorkerService {
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly storage: ClickhouseService,
+    protected readonly blockCacheService: BlockCacheService,
+    protected readonly dutyService: DutyService,
+  ) {}
+
+  /**
+   * Stores duties data of the epoch. Duties metrics describe the latest processed epoch, so they are left to the main loop
+   * and the epoch isn't marked as calculated. Gap repair calculates metrics of such epochs within its window
+   */
+  @TrackTask('backfill-epoch')
+  public async process(epoch: Epoch): Promise<void> {
+    const processing = await this.storage.getEpochProcessing(epoch);
+    if (processing.is_stored) return;
+    try {
+      const step = this.config.get('FETCH_INTERVAL_SLOTS');
+      const stateHeader = await this.clClient.getBeaconBlockHeaderOrPreviousIfMissed(epoch * step + (step - 1));
+      const stateSlot = Number(stateHeader.header.message.slot);
+      this.logger.log(`Backfill epoch [${epoch}] with state slot [${stateSlot}]`);
+      await this.dutyService.checkAndWrite({ epoch, stateSlot });
+    } catch (e) {
+      // Remove the cache because there may be an error due to bad node responses.
+      // The cache is shared with the main loop and other workers, so only blocks of this epoch are removed
+      this.blockCacheService.clear(epoch);
+      throw e;
+    }
+  }
+}
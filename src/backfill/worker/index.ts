@@ -0,0 +1,2 @@
+export * from './backfill-worker.module';
+export * from './backfill-worker.service';
@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 
+import { LeaderElectionModule } from 'common/leader-election';
 import { ClickhouseModule } from 'storage/clickhouse';
 
 import { CriticalAlertsService } from './critical-alerts.service';
 
 @Module({
-  imports: [ClickhouseModule],
+  imports: [ClickhouseModule, LeaderElectionModule],
   providers: [CriticalAlertsService],
   exports: [CriticalAlertsService],
 })
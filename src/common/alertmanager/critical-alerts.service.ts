@@ -4,6 +4,7 @@ import { got } from 'got-cjs';
 
 import { ConfigService } from 'common/config';
 import { Epoch } from 'common/consensus-provider/types';
+import { LeaderElectionService } from 'common/leader-election';
 import { PrometheusService } from 'common/prometheus';
 import { ClickhouseService } from 'storage';
 import { RegistryService, RegistrySourceOperator } from 'validators-registry';
@@ -31,11 +32,16 @@ export class CriticalAlertsService {
     protected readonly storage: ClickhouseService,
     protected readonly prometheus: PrometheusService,
     protected readonly registryService: RegistryService,
+    protected readonly leaderElection: LeaderElectionService,
   ) {
     this.baseUrl = this.config.get('CRITICAL_ALERTS_ALERTMANAGER_URL') ?? '';
   }
 
   public async send(epoch: Epoch) {
+    if (!this.leaderElection.isLeader()) {
+      this.logger.log(`Instance is not the leader. Critical alerts are sent by the leader`);
+      return;
+    }
     this.operators = await this.registryService.getOperators();
     if (this.prometheus.getSlotTimeDiffWithNow() > 3600000) {
       this.logger.warn(`Data actuality greater than 1 hour. Critical alerts are suppressed`);
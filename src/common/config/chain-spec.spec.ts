@@ -0,0 +1,74 @@
+import { ForkScheduleEntry, MAINNET_PRESET, parseChainSpec } from './chain-spec';
+
+const FAR_FUTURE_EPOCH = '18446744073709551615';
+
+// `/eth/v1/config/spec` values of mainnet before Fulu is scheduled
+const mainnetSpec = (): Record<string, string> => ({
+  ...Object.fromEntries(Object.entries(MAINNET_PRESET).map(([name, value]) => [name, String(value)])),
+  SECONDS_PER_SLOT: '12',
+  GENESIS_FORK_VERSION: '0x00000000',
+  ALTAIR_FORK_VERSION: '0x01000000',
+  ALTAIR_FORK_EPOCH: '74240',
+  BELLATRIX_FORK_VERSION: '0x02000000',
+  BELLATRIX_FORK_EPOCH: '144896',
+  CAPELLA_FORK_VERSION: '0x03000000',
+  CAPELLA_FORK_EPOCH: '194048',
+  DENEB_FORK_VERSION: '0x04000000',
+  DENEB_FORK_EPOCH: '269568',
+  ELECTRA_FORK_VERSION: '0x05000000',
+  ELECTRA_FORK_EPOCH: '364032',
+  FULU_FORK_VERSION: '0x06000000',
+  FULU_FORK_EPOCH: FAR_FUTURE_EPOCH,
+});
+
+// `/eth/v1/config/fork_schedule` of mainnet
+const mainnetForkSchedule = (): ForkScheduleEntry[] => [
+  { previous_version: '0x00000000', current_version: '0x00000000', epoch: '0' },
+  { previous_version: '0x00000000', current_version: '0x01000000', epoch: '74240' },
+  { previous_version: '0x01000000', current_version: '0x02000000', epoch: '144896' },
+  { previous_version: '0x02000000', current_version: '0x03000000', epoch: '194048' },
+  { previous_version: '0x03000000', current_version: '0x04000000', epoch: '269568' },
+  { previous_version: '0x04000000', current_version: '0x05000000', epoch: '364032' },
+];
+
+const mainnetForkEpochs = {
+  altair: 74240,
+  bellatrix: 144896,
+  capella: 194048,
+  deneb: 269568,
+  electra: 364032,
+};
+
+describe('parseChainSpec', () => {
+  it('parses mainnet spec', () => {
+    const spec = parseChainSpec(mainnetSpec(), mainnetForkSchedule());
+    expect(spec).toEqual({ ...MAINNET_PRESET, SECONDS_PER_SLOT: 12, forkEpochs: mainnetForkEpochs });
+  });
+
+  it('skips forks scheduled at FAR_FUTURE_EPOCH', () => {
+    const forkSchedule = [
+      ...mainnetForkSchedule(),
+      { previous_version: '0x05000000', current_version: '0x06000000', epoch: FAR_FUTURE_EPOCH },
+    ];
+    const spec = parseChainSpec(mainnetSpec(), forkSchedule);
+    expect(spec.forkEpochs).toEqual(mainnetForkEpochs);
+    expect(spec.forkEpochs).not.toHaveProperty('fulu');
+  });
+
+  it('takes fork epochs from the fork schedule by fork versions', () => {
+    const forkSchedule = [...mainnetForkSchedule(), { previous_version: '0x05000000', current_version: '0x06000000', epoch: '411392' }];
+    const spec = parseChainSpec(mainnetSpec(), forkSchedule);
+    expect(spec.forkEpochs).toEqual({ ...mainnetForkEpochs, fulu: 411392 });
+  });
+
+  it('takes fork epochs from the spec if the fork schedule has no such forks', () => {
+    const spec = parseChainSpec({ ...mainnetSpec(), FULU_FORK_EPOCH: '411392' }, []);
+    expect(spec.forkEpochs).toEqual({ ...mainnetForkEpochs, fulu: 411392 });
+  });
+
+  it('throws if the spec has no required value', () => {
+    const { INACTIVITY_SCORE_BIAS, ...spec } = mainnetSpec();
+    expect(INACTIVITY_SCORE_BIAS).toBe('4');
+    expect(() => parseChainSpec(spec, mainnetForkSchedule())).toThrow(`Chain spec doesn't contain [INACTIVITY_SCORE_BIAS]`);
+  });
+});
@@ -0,0 +1,88 @@
+import { Epoch } from 'common/consensus-provider/types';
+
+// spec value of not scheduled fork epoch
+const FAR_FUTURE_EPOCH = 2n ** 64n - 1n;
+
+export interface ForkScheduleEntry {
+  previous_version: string;
+  current_version: string;
+  epoch: string;
+}
+
+export interface ChainSpec {
+  SLOTS_PER_EPOCH: number;
+  SECONDS_PER_SLOT: number;
+  SYNC_COMMITTEE_SIZE: number;
+  TARGET_COMMITTEE_SIZE: number;
+  MAX_COMMITTEES_PER_SLOT: number;
+  SHUFFLE_ROUND_COUNT: number;
+  EPOCHS_PER_HISTORICAL_VECTOR: number;
+  MIN_SEED_LOOKAHEAD: number;
+  MIN_EPOCHS_TO_INACTIVITY_PENALTY: number;
+  INACTIVITY_SCORE_BIAS: number;
+  INACTIVITY_SCORE_RECOVERY_RATE: number;
+  INACTIVITY_PENALTY_QUOTIENT_BELLATRIX: number;
+  EPOCHS_PER_SLASHINGS_VECTOR: number;
+  MIN_SLASHING_PENALTY_QUOTIENT_BELLATRIX: number;
+  MIN_SLASHING_PENALTY_QUOTIENT_ELECTRA: number;
+  PROPORTIONAL_SLASHING_MULTIPLIER_BELLATRIX: number;
+  // lower-cased fork name -> activation epoch. Not scheduled forks are absent
+  forkEpochs: Record<string, Epoch>;
+}
+
+// https://github.com/ethereum/consensus-specs/tree/dev/presets/mainnet
+export const MAINNET_PRESET: Omit<ChainSpec, 'SECONDS_PER_SLOT' | 'forkEpochs'> = {
+  SLOTS_PER_EPOCH: 32,
+  SYNC_COMMITTEE_SIZE: 512,
+  TARGET_COMMITTEE_SIZE: 128,
+  MAX_COMMITTEES_PER_SLOT: 64,
+  SHUFFLE_ROUND_COUNT: 90,
+  EPOCHS_PER_HISTORICAL_VECTOR: 65536,
+  MIN_SEED_LOOKAHEAD: 1,
+  MIN_EPOCHS_TO_INACTIVITY_PENALTY: 4,
+  INACTIVITY_SCORE_BIAS: 4,
+  INACTIVITY_SCORE_RECOVERY_RATE: 16,
+  INACTIVITY_PENALTY_QUOTIENT_BELLATRIX: 2 ** 24,
+  EPOCHS_PER_SLASHINGS_VECTOR: 8192,
+  MIN_SLASHING_PENALTY_QUOTIENT_BELLATRIX: 32,
+  MIN_SLASHING_PENALTY_QUOTIENT_ELECTRA: 4096,
+  PROPORTIONAL_SLASHING_MULTIPLIER_BELLATRIX: 3,
+};
+
+/**
+ * Builds the chain spec from `/eth/v1/config/spec` and `/eth/v1/config/fork_schedule` responses.
+ * Fork epochs are taken from the fork schedule by fork versions and from `<FORK>_FORK_EPOCH` values otherwise
+ */
+export const parseChainSpec = (spec: Record<string, string>, forkSchedule: ForkScheduleEntry[]): ChainSpec => {
+  const value = (name: keyof typeof MAINNET_PRESET | 'SECONDS_PER_SLOT'): number => {
+    if (spec[name] == undefined) throw Error(`Chain spec doesn't contain [${name}]`);
+    return Number(spec[name]);
+  };
+  const forkEpochs: Record<string, Epoch> = {};
+  for (const [name, version] of Object.entries(spec)) {
+    const [, fork] = name.match(/^(\w+)_FORK_VERSION$/) ?? [];
+    if (!fork || fork == 'GENESIS') continue;
+    const epoch = forkSchedule.find((f) => f.current_version == version)?.epoch ?? spec[`${fork}_FORK_EPOCH`];
+    if (epoch == undefined || BigInt(epoch) >= FAR_FUTURE_EPOCH) continue;
+    forkEpochs[fork.toLowerCase()] = Number(epoch);
+  }
+  return {
+    SLOTS_PER_EPOCH: value('SLOTS_PER_EPOCH'),
+    SECONDS_PER_SLOT: value('SECONDS_PER_SLOT'),
+    SYNC_COMMITTEE_SIZE: value('SYNC_COMMITTEE_SIZE'),
+    TARGET_COMMITTEE_SIZE: value('TARGET_COMMITTEE_SIZE'),
+    MAX_COMMITTEES_PER_SLOT: value('MAX_COMMITTEES_PER_SLOT'),
+    SHUFFLE_ROUND_COUNT: value('SHUFFLE_ROUND_COUNT'),
+    EPOCHS_PER_HISTORICAL_VECTOR: value('EPOCHS_PER_HISTORICAL_VECTOR'),
+    MIN_SEED_LOOKAHEAD: value('MIN_SEED_LOOKAHEAD'),
+    MIN_EPOCHS_TO_INACTIVITY_PENALTY: value('MIN_EPOCHS_TO_INACTIVITY_PENALTY'),
+    INACTIVITY_SCORE_BIAS: value('INACTIVITY_SCORE_BIAS'),
+    INACTIVITY_SCORE_RECOVERY_RATE: value('INACTIVITY_SCORE_RECOVERY_RATE'),
+    INACTIVITY_PENALTY_QUOTIENT_BELLATRIX: value('INACTIVITY_PENALTY_QUOTIENT_BELLATRIX'),
+    EPOCHS_PER_SLASHINGS_VECTOR: value('EPOCHS_PER_SLASHINGS_VECTOR'),
+    MIN_SLASHING_PENALTY_QUOTIENT_BELLATRIX: value('MIN_SLASHING_PENALTY_QUOTIENT_BELLATRIX'),
+    MIN_SLASHING_PENALTY_QUOTIENT_ELECTRA: value('MIN_SLASHING_PENALTY_QUOTIENT_ELECTRA'),
+    PROPORTIONAL_SLASHING_MULTIPLIER_BELLATRIX: value('PROPORTIONAL_SLASHING_MULTIPLIER_BELLATRIX'),
+    forkEpochs,
+  };
+};
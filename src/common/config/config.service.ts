@@ -1,16 +1,99 @@
 import { ConfigService as ConfigServiceSource } from '@nestjs/config';
 
-import { EnvironmentVariables } from './env.validation';
+import { ApiAuth, loadApiAuthEntries, resolveApiAuth } from './api-auth';
+import { ChainSpec, MAINNET_PRESET } from './chain-spec';
+import { EnvironmentVariables, altairForkEpoch } from './env.validation';
+
+type ChainSpecVariables = Pick<
+  EnvironmentVariables,
+  'FETCH_INTERVAL_SLOTS' | 'CHAIN_SLOT_TIME_SECONDS' | 'DENCUN_FORK_EPOCH' | 'ELECTRA_FORK_EPOCH'
+>;
 
 export class ConfigService extends ConfigServiceSource<EnvironmentVariables> {
+  protected apiAuthByUrl?: Map<string, ApiAuth>;
+  protected chainSpec?: ChainSpec;
+  // env variables which are replaced by values of the chain spec
+  protected chainSpecVariables: Partial<ChainSpecVariables> = {};
+
   /**
    * List of env variables that should be hidden
    */
   public get secrets(): string[] {
-    return [...this.get('EL_RPC_URLS'), ...this.get('CL_API_URLS'), this.get('DB_PASSWORD')].filter((v) => v).map((v) => String(v));
+    return [
+      ...this.get('EL_RPC_URLS'),
+      ...this.get('CL_API_URLS'),
+      ...(this.get('VALIDATOR_REGISTRY_KEYSAPI_SOURCE_URLS') ?? []),
+      ...[...this.getApiAuthByUrl().values()].flatMap((auth) => auth.secrets),
+      this.get('DB_PASSWORD'),
+      this.get('ADMIN_API_TOKEN'),
+    ]
+      .filter((v) => v)
+      .map((v) => String(v));
   }
 
   public get<T extends keyof EnvironmentVariables>(key: T): EnvironmentVariables[T] {
+    if (key in this.chainSpecVariables) return this.chainSpecVariables[key as keyof ChainSpecVariables] as EnvironmentVariables[T];
     return super.get(key, { infer: true }) as EnvironmentVariables[T];
   }
+
+  /**
+   * Returns the chain spec loaded from CL API or, until it's loaded, the mainnet preset with values from env variables
+   */
+  public getChainSpec(): ChainSpec {
+    return (
+      this.chainSpec ?? {
+        ...MAINNET_PRESET,
+        SLOTS_PER_EPOCH: this.get('FETCH_INTERVAL_SLOTS'),
+        SECONDS_PER_SLOT: this.get('CHAIN_SLOT_TIME_SECONDS'),
+        forkEpochs: {
+          altair: altairForkEpoch[this.get('ETH_NETWORK')],
+          deneb: this.get('DENCUN_FORK_EPOCH'),
+          electra: this.get('ELECTRA_FORK_EPOCH'),
+        },
+      }
+    );
+  }
+
+  /**
+   * Replaces network-dependent env variables by values of the chain spec
+   */
+  public setChainSpec(spec: ChainSpec): void {
+    this.checkStartEpochs(spec.forkEpochs.altair ?? Number.MAX_SAFE_INTEGER);
+    this.chainSpec = spec;
+    this.chainSpecVariables = {
+      FETCH_INTERVAL_SLOTS: spec.SLOTS_PER_EPOCH,
+      CHAIN_SLOT_TIME_SECONDS: spec.SECONDS_PER_SLOT,
+      DENCUN_FORK_EPOCH: spec.forkEpochs.deneb ?? Number.MAX_SAFE_INTEGER,
+      ELECTRA_FORK_EPOCH: spec.forkEpochs.electra ?? Number.MAX_SAFE_INTEGER,
+    };
+  }
+
+  /**
+   * States are processed since Altair, so epochs to process must not be earlier than it.
+   * If the chain spec isn't loaded from CL API, the Altair fork epoch is known for the listed networks only
+   */
+  public checkStartEpochs(altairEpoch = this.getChainSpec().forkEpochs.altair ?? 0): void {
+    if (this.get('START_EPOCH') < altairEpoch) {
+      throw Error(`START_EPOCH [${this.get('START_EPOCH')}] must not be earlier than Altair fork epoch [${altairEpoch}]`);
+    }
+    if (this.get('BACKFILL_ENABLED') && this.get('BACKFILL_START_EPOCH') < altairEpoch) {
+      throw Error(`BACKFILL_START_EPOCH [${this.get('BACKFILL_START_EPOCH')}] must not be earlier than Altair fork epoch [${altairEpoch}]`);
+    }
+  }
+
+  /**
+   * Returns the URL without credentials and headers which should be sent to it
+   */
+  public getApiAuth(apiUrl: string): ApiAuth {
+    return this.getApiAuthByUrl().get(apiUrl) ?? { url: apiUrl, headers: {}, secrets: [] };
+  }
+
+  protected getApiAuthByUrl(): Map<string, ApiAuth> {
+    if (!this.apiAuthByUrl) {
+      const entries = loadApiAuthEntries(this.get('API_AUTH_FILE_PATH'));
+      const urls = [...(this.get('CL_API_URLS') ?? []), ...(this.get('VALIDATOR_REGISTRY_KEYSAPI_SOURCE_URLS') ?? [])];
+      this.apiAuthByUrl = new Map(urls.map((url) => [url, resolveApiAuth(url, entries)]));
+    }
+    return this.apiAuthByUrl;
+  }
 }
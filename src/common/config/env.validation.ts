@@ -11,6 +11,7 @@ import {
   IsPort,
   IsPositive,
   IsString,
+  Matches,
   Max,
   Min,
   MinLength,
@@ -26,6 +27,8 @@ export enum Network {
   Mainnet = 1,
   Goerli = 5,
   Holesky = 17000,
+  Sepolia = 11155111,
+  Hoodi = 560048,
 }
 
 export enum ValidatorRegistrySource {
@@ -37,12 +40,26 @@ export enum ValidatorRegistrySource {
 export enum WorkingMode {
   Finalized = 'finalized',
   Head = 'head',
+  Hybrid = 'hybrid',
+  Follow = 'follow',
 }
 
-const dencunForkEpoch = {
-  '1': 269568,
-  '5': 231680,
-  '17000': 29696,
+/**
+ * Fork epochs of known networks, used if the chain spec isn't loaded from CL API
+ */
+export const altairForkEpoch: Partial<Record<Network, Epoch>> = {
+  [Network.Mainnet]: 74240,
+  [Network.Goerli]: 36660,
+  [Network.Holesky]: 0,
+  [Network.Sepolia]: 50,
+  [Network.Hoodi]: 0,
+};
+
+const dencunForkEpoch: Partial<Record<Network, Epoch>> = {
+  [Network.Mainnet]: 269568,
+  [Network.Goerli]: 231680,
+  [Network.Holesky]: 29696,
+  [Network.Sepolia]: 132608,
 };
 
 const toBoolean = (value: any): boolean => {
@@ -148,6 +165,12 @@ export class EnvironmentVariables {
   @ValidateIf((vars) => vars.NODE_ENV != Environment.test)
   public CL_API_URLS!: string[];
 
+  /**
+   * Path to the YAML file with headers and credentials for CL API and KeysAPI URLs
+   */
+  @IsString()
+  public API_AUTH_FILE_PATH = '';
+
   @IsInt()
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public CL_API_RETRY_DELAY_MS = 500;
@@ -165,23 +188,138 @@ export class EnvironmentVariables {
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public CL_API_GET_BLOCK_INFO_MAX_RETRIES = 1;
 
+  /**
+   * Request blocks in SSZ encoding instead of JSON. JSON is used for nodes which don't support SSZ
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public CL_API_SSZ_BLOCKS_ENABLED = true;
+
+  /**
+   * Compute attestation committees from the state instead of requesting them from CL API
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public COMMITTEES_FROM_STATE_ENABLED = false;
+
+  /**
+   * Request rewards of user validators from CL API and store them along with calculated ones
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public REWARDS_API_VERIFICATION_ENABLED = false;
+
+  /**
+   * Use rewards from CL API instead of calculated ones
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public REWARDS_API_REPLACE_ENABLED = false;
+
+  /**
+   * Keep fetched blocks on disk, so they are not downloaded again after restarts and errors
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public BLOCK_CACHE_PERSISTENT_ENABLED = false;
+
+  @IsString()
+  public BLOCK_CACHE_PATH = './.volumes/block-cache';
+
+  /**
+   * Persist only finalized blocks, which can't be reorganized
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public BLOCK_CACHE_FINALIZED_ONLY = true;
+
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public BLOCK_CACHE_MAX_SIZE_MB = 1024;
+
+  /**
+   * Use beacon node events stream to trigger processing and warm up blocks cache.
+   * Polling is used as a fallback when the stream is disconnected
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public CL_API_EVENTS_ENABLED = false;
+
+  /**
+   * Interval of background requests to all CL API endpoints to measure their health
+   */
+  @IsInt()
+  @Min(1000)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public CL_API_PROBE_INTERVAL_MS = 30000;
+
+  /**
+   * Count of consecutive failed requests after which CL API endpoint is used only if all other endpoints fail
+   */
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public CL_API_CIRCUIT_BREAKER_FAILURES = 3;
+
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public CL_API_CIRCUIT_BREAKER_COOLDOWN_MS = 60000;
+
+  /**
+   * Delay after which block and header requests are sent to the next CL API endpoint as well. 0 disables hedging
+   */
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public CL_API_HEDGE_DELAY_MS = 0;
+
+  /**
+   * Compare headers, finality checkpoints and proposer duties from all CL API endpoints before processing an epoch
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public CL_API_CONSISTENCY_CHECK_ENABLED = false;
+
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public CL_API_CONSISTENCY_MAX_DIVERGENT_NODES = 0;
+
+  /**
+   * Must not be earlier than the Altair fork epoch, it's checked at startup
+   */
   @IsNumber()
-  @Min(74240) // Altair
+  @Min(0)
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
-  @ValidateIf((vars) => vars.ETH_NETWORK === Network.Mainnet)
   public START_EPOCH = 155000;
 
+  /**
+   * Read `SLOTS_PER_EPOCH`, `SECONDS_PER_SLOT`, fork epochs and committee sizes from `/eth/v1/config/spec`
+   * and `/eth/v1/config/fork_schedule` of CL API at startup instead of `FETCH_INTERVAL_SLOTS`,
+   * `CHAIN_SLOT_TIME_SECONDS`, `DENCUN_FORK_EPOCH` and `ELECTRA_FORK_EPOCH` env variables
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public CHAIN_SPEC_FROM_CL_API_ENABLED = true;
+
   @IsInt()
   @IsPositive()
   @Expose()
-  @Transform(
-    ({ value, obj }) =>
-      dencunForkEpoch[obj.ETH_NETWORK] || (value != null && value.trim() !== '' ? parseInt(value, 10) : Number.MAX_SAFE_INTEGER),
+  @Transform(({ value, obj }) =>
+    value != null && value.trim() !== '' ? parseInt(value, 10) : dencunForkEpoch[obj.ETH_NETWORK] ?? Number.MAX_SAFE_INTEGER,
   )
   public DENCUN_FORK_EPOCH: Epoch;
 
+  @IsInt()
+  @IsPositive()
+  @Expose()
+  @Transform(({ value }) => (value != null && value.trim() !== '' ? parseInt(value, 10) : Number.MAX_SAFE_INTEGER))
+  public ELECTRA_FORK_EPOCH: Epoch;
+
   @IsNumber()
-  @Min(32)
+  @Min(1)
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public FETCH_INTERVAL_SLOTS = 32;
 
@@ -293,6 +431,115 @@ export class EnvironmentVariables {
 
   @IsEnum(WorkingMode)
   public WORKING_MODE = WorkingMode.Finalized;
+
+  /**
+   * How far behind the head the app works in `follow` mode.
+   * Number of epochs or `justified` to follow the current justified checkpoint
+   */
+  @IsString()
+  @Matches(/^(\d+|justified)$/)
+  @ValidateIf((vars) => vars.WORKING_MODE == WorkingMode.Follow)
+  public FOLLOW_DISTANCE = '2';
+
+  /**
+   * Process historical epochs from BACKFILL_START_EPOCH to BACKFILL_END_EPOCH (inclusive)
+   * in parallel with the main loop. The range must end before START_EPOCH
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public BACKFILL_ENABLED = false;
+
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  @ValidateIf((vars) => vars.BACKFILL_ENABLED)
+  public BACKFILL_START_EPOCH: Epoch;
+
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  @ValidateIf((vars) => vars.BACKFILL_ENABLED)
+  public BACKFILL_END_EPOCH: Epoch;
+
+  /**
+   * Number of epochs processed concurrently by backfill. Each worker keeps the whole beacon state in memory
+   */
+  @IsInt()
+  @Min(1)
+  @Max(16)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public BACKFILL_WORKERS = 2;
+
+  /**
+   * Number of attempts to process an epoch by backfill. Epochs failed after all attempts are not processed until
+   * they are requested again
+   */
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public BACKFILL_MAX_ATTEMPTS = 3;
+
+  /**
+   * Periodically look for not processed epochs in the last GAP_REPAIR_WINDOW_EPOCHS epochs and process them
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public GAP_REPAIR_ENABLED = false;
+
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public GAP_REPAIR_WINDOW_EPOCHS = 225;
+
+  /**
+   * Token to access admin API routes. Admin API is disabled if it isn't set
+   */
+  @IsString()
+  public ADMIN_API_TOKEN = '';
+
+  /**
+   * Run several instances of the app, where only the leader processes epochs and sends critical alerts
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public LEADER_ELECTION_ENABLED = false;
+
+  /**
+   * Unique name of the instance. Host name and process id are used if it isn't set
+   */
+  @IsString()
+  public LEADER_ELECTION_INSTANCE_ID = '';
+
+  /**
+   * Leadership is taken over by another instance if the leader doesn't renew the lease during this time
+   */
+  @IsInt()
+  @Min(3)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public LEADER_ELECTION_LEASE_SECONDS = 60;
+
+  /**
+   * Time to wait for the current epoch processing on shutdown. After that the epoch is processed again after restart
+   */
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public SHUTDOWN_TIMEOUT_SECONDS = 25;
+
+  /**
+   * Download data of the next epoch while the current one is written to DB, if the next epoch is already available
+   */
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public PIPELINE_ENABLED = false;
+
+  /**
+   * Next epoch isn't prefetched if the app already uses more memory (heap and buffers). `0` disables the limit
+   */
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public PIPELINE_MAX_MEMORY_MB = 4096;
 }
 
 export function validate(config: Record<string, unknown>) {
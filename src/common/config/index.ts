@@ -1,3 +1,4 @@
+export * from './chain-spec';
 export * from './config.module';
 export * from './config.service';
 export * from './env.validation';
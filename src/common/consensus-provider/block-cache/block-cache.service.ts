@@ -1,7 +1,10 @@
+import { mkdir, readFile, readdir, stat, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
-import { Inject, Injectable, LoggerService } from '@nestjs/common';
+import { Inject, Injectable, LoggerService, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
 
-import { ConfigService } from 'common/config';
+import { ConfigService, WorkingMode } from 'common/config';
 
 import { BlockHeaderResponse, BlockInfoResponse } from '../intefaces';
 import { Epoch, RootHex, Slot } from '../types';
@@ -14,47 +17,282 @@ export interface BlockCache {
 
 type BlockCacheId = Slot | RootHex;
 
+interface BlockCacheEntry {
+  slot?: Slot;
+  root?: RootHex;
+  data: BlockCache;
+  persisted: boolean;
+}
+
+interface BlockCacheFile {
+  // composite id: `<slot>_<root>`. Root is empty for missed slots and for blocks requested only by slot
+  id: string;
+  slot: Slot;
+  root?: RootHex;
+  size: number;
+}
+
+/**
+ * Blocks cache with two layers:
+ *   - in-memory entries of the epochs which are being processed
+ *   - optional persistent entries on disk, which survive restarts and errors
+ * Every entry is stored under the composite id of slot number and root and can be got by one of them
+ */
 @Injectable()
-export class BlockCacheService {
-  protected cache: Map<string, BlockCache>;
+export class BlockCacheService implements OnModuleInit, OnApplicationShutdown {
+  // the same entry is stored by slot number and by root
+  protected cache: Map<string, BlockCacheEntry>;
+  // not finalized blocks requested only by root, e.g. on block events. They are available by slot number only after
+  // the canonical header of the slot is got, because the slot can be taken by another block after reorg
+  protected warm = new Map<RootHex, BlockCacheEntry>();
+  // the same file is stored by slot number and by root
+  protected files: Map<string, BlockCacheFile>;
+  protected filesSize = 0;
+  protected finalizedSlot = -1;
+  // disk operations are done one by one to keep files index consistent
+  protected diskQueue: Promise<void> = Promise.resolve();
+
   constructor(@Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService, protected readonly config: ConfigService) {
-    this.cache = new Map<string, BlockCache>();
+    this.cache = new Map<string, BlockCacheEntry>();
+    this.files = new Map<string, BlockCacheFile>();
   }
 
-  public set(blockId: BlockCacheId, data: BlockCache): void {
+  public async onModuleInit(): Promise<void> {
+    if (!this.config.get('BLOCK_CACHE_PERSISTENT_ENABLED')) return;
+    const dir = this.config.get('BLOCK_CACHE_PATH');
+    await mkdir(dir, { recursive: true });
+    for (const name of await readdir(dir)) {
+      const [, slot, root] = name.match(/^(\d+)_(0x[0-9a-f]+)?\.json$/) ?? [];
+      if (slot == undefined) continue;
+      const { size } = await stat(join(dir, name));
+      this.indexFile({ id: `${slot}_${root ?? ''}`, slot: Number(slot), root, size });
+    }
+    this.logger.log(`Loaded [${this.uniqueFiles().length}] blocks from persistent cache`);
+    await this.evict();
+  }
+
+  public async onApplicationShutdown(): Promise<void> {
+    await this.diskQueue;
+  }
+
+  public async set(blockId: BlockCacheId, data: BlockCache): Promise<void> {
     // save only by slot number or root
     if (['finalized', 'head'].includes(String(blockId))) return;
+    const byRoot = String(blockId).startsWith('0x');
+    // the node may not have received the block yet
+    if (byRoot && data.missed) return;
     this.logger.debug(`Set ${blockId} ${Object.keys(data)} to blocks cache`);
-    const existing = this.get(String(blockId)) ?? {};
-    this.cache.set(String(blockId), { ...existing, ...data });
+    const slot = slotOf(blockId, data);
+    const root = rootOf(blockId, data);
+    // the block could be saved before by another part of the id
+    const saved = new Set([
+      await this.getEntry(blockId),
+      slot != undefined ? await this.getEntry(slot) : undefined,
+      root ? await this.getEntry(root) : undefined,
+    ]);
+    saved.delete(undefined);
+    // entry of another block in the same slot (e.g. after reorg) is stale, so it's replaced instead of merged
+    const isSameBlock = (e: BlockCacheEntry) =>
+      (!e.root || !root || e.root == root) && (e.slot == undefined || slot == undefined || e.slot == slot);
+    const existing = [...saved].find(isSameBlock);
+    const entry: BlockCacheEntry = {
+      slot: existing?.slot ?? slot,
+      root: existing?.root ?? root,
+      data: { ...existing?.data, ...data },
+      persisted: false,
+    };
+    const isWarm = byRoot && entry.slot > this.finalizedSlot && (!existing || this.warm.get(existing.root) == existing);
+    saved.forEach((e) => this.remove(e));
+    if (isWarm) return this.setWarm(entry);
+    this.cache.set(String(blockId), entry);
+    if (entry.slot != undefined) this.cache.set(String(entry.slot), entry);
+    if (entry.root) this.cache.set(entry.root, entry);
+    if (this.canPersist(entry)) this.persist(entry);
   }
 
-  public get(blockId: BlockCacheId): BlockCache {
-    return this.cache.get(String(blockId));
+  public async get(blockId: BlockCacheId): Promise<BlockCache> {
+    return (await this.getEntry(blockId))?.data;
   }
 
   /**
-   * Purge old blocks from cache
+   * Whether there are blocks of the slot requested only by root. One of them is moved to the slot cache
+   * when the canonical header of the slot with the same root is set
+   */
+  public hasWarm(slot: Slot): boolean {
+    for (const entry of this.warm.values()) {
+      if (entry.slot == slot) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Blocks up to this slot can't be reorganized, so they are allowed to be persisted
+   * when `BLOCK_CACHE_FINALIZED_ONLY` is enabled
+   */
+  public setFinalizedSlot(slot: Slot): void {
+    if (slot > this.finalizedSlot) this.finalizedSlot = slot;
+  }
+
+  /**
+   * Purge old blocks from memory. They are persisted before purging if it's allowed
    * @param epoch - current processed epoch
    */
   public purgeOld(epoch: Epoch): void {
     let purged = 0;
     const firstSlotPrevEpoch = (epoch - 2) * this.config.get('FETCH_INTERVAL_SLOTS');
-    for (const blockId of this.cache.keys()) {
-      // Data can be cached by block's root. Managing the lifetime of such records is not trivial at this moment
-      // In order for this to be possible it is necessary
-      // todo:
-      //   - save data to cache by composite Id: slot number + root
-      //   - get data by one of part of multiply id: slot number or root
-      if (blockId.startsWith('0x') || Number(blockId) < firstSlotPrevEpoch) {
+    for (const entry of new Set([...this.cache.values(), ...this.warm.values()])) {
+      // entries without slot are missed roots, they can't be matched with any slot
+      if (entry.slot == undefined || entry.slot < firstSlotPrevEpoch) {
+        if (!entry.persisted && this.canPersist(entry) && !this.warm.has(entry.root)) this.persist(entry);
         purged++;
-        this.cache.delete(blockId);
+        this.remove(entry);
       }
     }
     this.logger.debug(`Purged blocks cache count: ${purged}`);
   }
 
-  public clear() {
-    this.cache.clear();
+  /**
+   * Remove all entries which may belong to a reorganized chain or come from bad node responses.
+   * Persisted finalized blocks are kept
+   * @param epoch - processed epoch. If it's set, only blocks needed to process this epoch are removed
+   */
+  public clear(epoch?: Epoch) {
+    const slotsInEpoch = this.config.get('FETCH_INTERVAL_SLOTS');
+    const isCleared = (slot?: Slot) => epoch == undefined || (slot >= (epoch - 1) * slotsInEpoch && slot < (epoch + 1) * slotsInEpoch);
+    if (epoch == undefined) {
+      this.cache.clear();
+      this.warm.clear();
+    } else new Set([...this.cache.values(), ...this.warm.values()]).forEach((entry) => isCleared(entry.slot) && this.remove(entry));
+    const notFinalized = this.uniqueFiles().filter((file) => file.slot > this.finalizedSlot && isCleared(file.slot));
+    if (notFinalized.length) this.enqueueDisk(() => Promise.all(notFinalized.map((file) => this.removeFile(file))).then(() => undefined));
+  }
+
+  protected async getEntry(blockId: BlockCacheId): Promise<BlockCacheEntry> {
+    const cached = this.cache.get(String(blockId)) ?? this.warm.get(String(blockId));
+    if (cached || !this.config.get('BLOCK_CACHE_PERSISTENT_ENABLED')) return cached;
+    const file = this.files.get(String(blockId));
+    if (!file) return;
+    try {
+      const entry: BlockCacheEntry = { ...JSON.parse(await readFile(this.filePath(file), 'utf-8')), persisted: true };
+      this.cache.set(String(entry.slot), entry);
+      if (entry.root) this.cache.set(entry.root, entry);
+      return entry;
+    } catch (e) {
+      this.logger.warn(`Unable to read block [${file.id}] from persistent cache. ${e.message}`);
+    }
+  }
+
+  protected remove(entry: BlockCacheEntry): void {
+    for (const [key, value] of this.cache) {
+      if (value == entry) this.cache.delete(key);
+    }
+    if (entry.root && this.warm.get(entry.root) == entry) this.warm.delete(entry.root);
+  }
+
+  /**
+   * Only blocks between the head and the processed epoch are kept,
+   * so the cache doesn't grow while the app catches up with the head
+   */
+  protected setWarm(entry: BlockCacheEntry): void {
+    this.warm.set(entry.root, entry);
+    const maxCount = this.warmEpochs() * this.config.get('FETCH_INTERVAL_SLOTS');
+    for (const root of this.warm.keys()) {
+      if (this.warm.size <= maxCount) break;
+      this.warm.delete(root);
+    }
+  }
+
+  /**
+   * Distance from the head to the processed epoch in epochs depending on the working mode,
+   * plus the current epoch of the head and the epoch after the processed one, which is needed for attestations
+   */
+  protected warmEpochs(): number {
+    const followDistance = this.config.get('FOLLOW_DISTANCE');
+    const distance: Record<WorkingMode, number> = {
+      [WorkingMode.Head]: 0,
+      // justified checkpoint is one or two epochs behind the head
+      [WorkingMode.Follow]: followDistance == 'justified' ? 2 : Number(followDistance),
+      // finalized checkpoint is two or three epochs behind the head
+      [WorkingMode.Hybrid]: 3,
+      [WorkingMode.Finalized]: 3,
+    };
+    return distance[this.config.get('WORKING_MODE')] + 2;
+  }
+
+  protected canPersist(entry: BlockCacheEntry): boolean {
+    if (!this.config.get('BLOCK_CACHE_PERSISTENT_ENABLED') || entry.slot == undefined) return false;
+    return !this.config.get('BLOCK_CACHE_FINALIZED_ONLY') || entry.slot <= this.finalizedSlot;
+  }
+
+  protected persist(entry: BlockCacheEntry): void {
+    entry.persisted = true;
+    const { slot, root, data } = entry;
+    const content = JSON.stringify({ slot, root, data });
+    const file: BlockCacheFile = { id: `${slot}_${root ?? ''}`, slot, root, size: Buffer.byteLength(content) };
+    this.enqueueDisk(async () => {
+      // the block could be saved before under another id, e.g. only by slot
+      const previous = this.files.get(String(slot));
+      if (previous && previous.id != file.id) await this.removeFile(previous);
+      await writeFile(this.filePath(file), content);
+      if (previous?.id == file.id) this.filesSize -= previous.size;
+      this.indexFile(file);
+      await this.evict();
+    });
+  }
+
+  /**
+   * Remove the oldest blocks until the size of the persistent cache fits `BLOCK_CACHE_MAX_SIZE_MB`
+   */
+  protected async evict(): Promise<void> {
+    const maxSize = this.config.get('BLOCK_CACHE_MAX_SIZE_MB') * 1024 * 1024;
+    if (this.filesSize <= maxSize) return;
+    const files = this.uniqueFiles().sort((a, b) => a.slot - b.slot);
+    let evicted = 0;
+    for (const file of files) {
+      if (this.filesSize <= maxSize) break;
+      await this.removeFile(file);
+      evicted++;
+    }
+    this.logger.debug(`Evicted blocks from persistent cache count: ${evicted}`);
+  }
+
+  protected indexFile(file: BlockCacheFile): void {
+    this.files.set(String(file.slot), file);
+    if (file.root) this.files.set(file.root, file);
+    this.filesSize += file.size;
+  }
+
+  protected async removeFile(file: BlockCacheFile): Promise<void> {
+    if (this.files.get(String(file.slot)) != file) return;
+    this.files.delete(String(file.slot));
+    if (file.root) this.files.delete(file.root);
+    this.filesSize -= file.size;
+    await unlink(this.filePath(file)).catch((e) =>
+      this.logger.warn(`Unable to remove block [${file.id}] from persistent cache. ${e.message}`),
+    );
+  }
+
+  protected uniqueFiles(): BlockCacheFile[] {
+    return [...new Set(this.files.values())];
+  }
+
+  protected filePath(file: BlockCacheFile): string {
+    return join(this.config.get('BLOCK_CACHE_PATH'), `${file.id}.json`);
+  }
+
+  protected enqueueDisk(operation: () => Promise<void>): void {
+    this.diskQueue = this.diskQueue
+      .then(operation)
+      .catch((e) => this.logger.warn(`Error while updating persistent blocks cache. ${e.message}`));
   }
 }
+
+const slotOf = (blockId: BlockCacheId, data: BlockCache): Slot | undefined => {
+  const header = data.header as BlockHeaderResponse;
+  const info = data.info as BlockInfoResponse;
+  const slot = header?.header.message.slot ?? info?.message.slot ?? (String(blockId).startsWith('0x') ? undefined : blockId);
+  return slot == undefined ? undefined : Number(slot);
+};
+
+const rootOf = (blockId: BlockCacheId, data: BlockCache): RootHex | undefined =>
+  (data.header as BlockHeaderResponse)?.root ?? (String(blockId).startsWith('0x') ? String(blockId) : undefined);
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 
 import { BlockCacheModule } from './block-cache';
 import { ConsensusProviderService } from './consensus-provider.service';
+import { EndpointPoolModule } from './endpoint-pool';
 
 @Module({
-  imports: [BlockCacheModule],
+  imports: [BlockCacheModule, EndpointPoolModule],
   providers: [ConsensusProviderService],
   exports: [ConsensusProviderService],
 })
@@ -1,30 +1,41 @@
+import { Readable } from 'stream';
+
 import { ContainerTreeViewType } from '@chainsafe/ssz/lib/view/container';
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
-import { Inject, Injectable, LoggerService } from '@nestjs/common';
+import { Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
 import { NonEmptyArray } from 'fp-ts/NonEmptyArray';
 import { request } from 'undici';
 import { IncomingHttpHeaders } from 'undici/types/header';
 import BodyReadable from 'undici/types/readable';
 
-import { ConfigService } from 'common/config';
+import { ConfigService, ForkScheduleEntry, WorkingMode, parseChainSpec } from 'common/config';
 import { range } from 'common/functions/range';
 import { rejectDelay } from 'common/functions/rejectDelay';
 import { retrier } from 'common/functions/retrier';
+import { sleep } from 'common/functions/sleep';
 import { urljoin } from 'common/functions/urljoin';
-import { PrometheusService, TrackCLRequest } from 'common/prometheus';
+import { PrometheusService, TrackCLRequest, requestLabels } from 'common/prometheus';
 import { EpochProcessingState } from 'storage/clickhouse';
 
 import { BlockCache, BlockCacheService } from './block-cache';
-import { MaxDeepError, ResponseError, errCommon, errRequest } from './errors';
+import { EndpointPoolService } from './endpoint-pool';
+import { MaxDeepError, OptimisticResponseError, ResponseError, errCommon, errRequest } from './errors';
 import {
+  AttestationRewardsResponse,
   BlockHeaderResponse,
   BlockInfoResponse,
+  BlockRewardsResponse,
+  ChainEvent,
+  EventTopic,
   FinalityCheckpointsResponse,
   GenesisResponse,
   ProposerDutyInfo,
   SyncCommitteeInfo,
+  SyncCommitteeRewardResponse,
+  SyncingResponse,
   VersionResponse,
 } from './intefaces';
+import { decodeBlockInfo } from './ssz';
 import { BlockId, Epoch, Slot, StateId } from './types';
 
 let ssz: typeof import('@lodestar/types').ssz;
@@ -38,24 +49,45 @@ interface RequestRetryOptions {
   useFallbackOnResolved?: (r: any) => boolean;
 }
 
+export type StateView = ContainerTreeViewType<typeof anySsz.BeaconState.fields>;
+
+interface StateBytes {
+  bytes: Uint8Array;
+  forkName: keyof typeof ForkName;
+}
+
 @Injectable()
-export class ConsensusProviderService {
+export class ConsensusProviderService implements OnModuleInit {
   protected apiUrls: string[];
   protected version = '';
   protected genesisTime = 0;
   protected defaultMaxSlotDeepCount = 32;
   protected latestSlot = { slot: 0, fetchTime: 0 };
+  // Responses requested in advance by `prefetchState`. Each of them is used only once
+  protected prefetched = new Map<string, Promise<unknown>>();
+  // Endpoints which responded that SSZ-encoded blocks are not acceptable
+  protected sszUnsupported = new Set<string>();
+  // States of the epochs being processed. Backfill workers share the provider, so several states can be loaded at once
+  protected states = new Map<string, Promise<StateView>>();
 
   protected endpoints = {
     version: 'eth/v1/node/version',
+    syncing: 'eth/v1/node/syncing',
     genesis: 'eth/v1/beacon/genesis',
+    spec: 'eth/v1/config/spec',
+    forkSchedule: 'eth/v1/config/fork_schedule',
     beaconHeadFinalityCheckpoints: 'eth/v1/beacon/states/head/finality_checkpoints',
+    finalityCheckpoints: (stateId: StateId): string => `eth/v1/beacon/states/${stateId}/finality_checkpoints`,
     blockInfo: (blockId: BlockId): string => `eth/v2/beacon/blocks/${blockId}`,
     beaconHeaders: (blockId: BlockId): string => `eth/v1/beacon/headers/${blockId}`,
     attestationCommittees: (stateId: StateId, epoch: Epoch): string => `eth/v1/beacon/states/${stateId}/committees?epoch=${epoch}`,
     syncCommittee: (stateId: StateId, epoch: Epoch): string => `eth/v1/beacon/states/${stateId}/sync_committees?epoch=${epoch}`,
     proposerDutes: (epoch: Epoch): string => `eth/v1/validator/duties/proposer/${epoch}`,
     state: (stateId: StateId): string => `eth/v2/debug/beacon/states/${stateId}`,
+    events: (topics: EventTopic[]): string => `eth/v1/events?topics=${topics.join(',')}`,
+    attestationRewards: (epoch: Epoch): string => `eth/v1/beacon/rewards/attestations/${epoch}`,
+    syncCommitteeRewards: (blockId: BlockId): string => `eth/v1/beacon/rewards/sync_committee/${blockId}`,
+    blockRewards: (blockId: BlockId): string => `eth/v1/beacon/rewards/blocks/${blockId}`,
   };
 
   public constructor(
@@ -63,10 +95,31 @@ export class ConsensusProviderService {
     protected readonly config: ConfigService,
     protected readonly prometheus: PrometheusService,
     protected readonly cache: BlockCacheService,
+    protected readonly pool: EndpointPoolService,
   ) {
     this.apiUrls = config.get('CL_API_URLS') as NonEmptyArray<string>;
   }
 
+  public async onModuleInit(): Promise<void> {
+    if (!this.config.get('CHAIN_SPEC_FROM_CL_API_ENABLED')) {
+      this.config.checkStartEpochs();
+      return;
+    }
+    const [spec, forkSchedule] = await Promise.all([this.getSpec(), this.getForkSchedule()]);
+    const chainSpec = parseChainSpec(spec, forkSchedule);
+    this.config.setChainSpec(chainSpec);
+    const forks = Object.entries(chainSpec.forkEpochs).map(([fork, epoch]) => `${fork}: ${epoch}`);
+    this.logger.log(`Got chain spec from Consensus Layer Client API. Fork epochs [${forks.join(', ')}]`);
+  }
+
+  public async getSpec(): Promise<Record<string, string>> {
+    return await this.retryRequest<Record<string, string>>(async (apiURL: string) => this.apiGet(apiURL, this.endpoints.spec));
+  }
+
+  public async getForkSchedule(): Promise<ForkScheduleEntry[]> {
+    return await this.retryRequest<ForkScheduleEntry[]>(async (apiURL: string) => this.apiGet(apiURL, this.endpoints.forkSchedule));
+  }
+
   public async getVersion(): Promise<string> {
     if (this.version) {
       return this.version;
@@ -88,19 +141,47 @@ export class ConsensusProviderService {
     return (this.genesisTime = genesisTime);
   }
 
-  public async getFinalizedEpoch(): Promise<Epoch> {
-    return Number(
-      (
-        await this.retryRequest<FinalityCheckpointsResponse>(async (apiURL: string) =>
-          this.apiGet(apiURL, this.endpoints.beaconHeadFinalityCheckpoints),
-        )
-      ).finalized.epoch,
+  public async getFinalityCheckpoints(): Promise<FinalityCheckpointsResponse> {
+    const checkpoints = await this.retryRequest<FinalityCheckpointsResponse>(async (apiURL: string) =>
+      this.apiGet(apiURL, this.endpoints.beaconHeadFinalityCheckpoints),
     );
+    this.cache.setFinalizedSlot(Number(checkpoints.finalized.epoch) * this.config.get('FETCH_INTERVAL_SLOTS'));
+    return checkpoints;
+  }
+
+  public async getFinalizedEpoch(): Promise<Epoch> {
+    return Number((await this.getFinalityCheckpoints()).finalized.epoch);
   }
 
   public async getLatestBlockHeader(processingState: EpochProcessingState): Promise<BlockHeaderResponse | void> {
-    const latestFrom = this.config.get('WORKING_MODE');
-    return await this.retryRequest<BlockHeaderResponse>(
+    const workingMode = this.config.get('WORKING_MODE');
+    if (workingMode == WorkingMode.Follow) {
+      return await this.getFollowedBlockHeader(processingState);
+    }
+    return await this.getLatestBlockHeaderFrom(workingMode == WorkingMode.Finalized ? 'finalized' : 'head', processingState);
+  }
+
+  /**
+   * Get block header which is `FOLLOW_DISTANCE` behind the head
+   */
+  protected async getFollowedBlockHeader(processingState: EpochProcessingState): Promise<BlockHeaderResponse | void> {
+    const distance = this.config.get('FOLLOW_DISTANCE');
+    if (distance == 'justified') {
+      const justified = (await this.getFinalityCheckpoints()).current_justified;
+      return await this.getBlockHeader(justified.root);
+    }
+    const head = await this.getLatestBlockHeaderFrom('head', processingState);
+    if (!head) return;
+    const followedSlot = Number(head.header.message.slot) - Number(distance) * this.config.get('FETCH_INTERVAL_SLOTS');
+    // non-finalized blocks can be reorganized, so cache is not used
+    return await this.getPreviousNotMissedBlockHeader(followedSlot, this.defaultMaxSlotDeepCount, true);
+  }
+
+  protected async getLatestBlockHeaderFrom(
+    latestFrom: BlockId,
+    processingState: EpochProcessingState,
+  ): Promise<BlockHeaderResponse | void> {
+    const latest = await this.retryRequest<BlockHeaderResponse>(
       async (apiURL: string) => this.apiGet(apiURL, this.endpoints.beaconHeaders(latestFrom)),
       {
         maxRetries: this.config.get('CL_API_GET_BLOCK_INFO_MAX_RETRIES'),
@@ -135,17 +216,19 @@ export class ConsensusProviderService {
         throw e;
       }
     });
+    if (latest && latestFrom == 'finalized') this.cache.setFinalizedSlot(Number(latest.header.message.slot));
+    return latest;
   }
 
   public async getBlockHeader(blockId: BlockId, ignoreCache = false): Promise<BlockHeaderResponse | void> {
-    const cached: BlockCache = this.cache.get(String(blockId));
+    const cached: BlockCache = await this.cache.get(String(blockId));
     if (!ignoreCache && cached && (cached.missed || cached.header)) {
       this.logger.debug(`Get ${blockId} header from blocks cache`);
       return cached.missed ? undefined : cached.header;
     }
 
     const blockHeader = await this.retryRequest<BlockHeaderResponse>(
-      async (apiURL: string) => this.apiGet(apiURL, this.endpoints.beaconHeaders(blockId)),
+      this.hedged((apiURL: string, signal: AbortSignal) => this.apiGet(apiURL, this.endpoints.beaconHeaders(blockId), signal)),
       {
         maxRetries: this.config.get('CL_API_GET_BLOCK_INFO_MAX_RETRIES'),
         useFallbackOnRejected: (last_fallback_err, curr_fallback_error) => {
@@ -164,7 +247,7 @@ export class ConsensusProviderService {
     });
 
     if (!ignoreCache) {
-      this.cache.set(String(blockId), { missed: !blockHeader, header: blockHeader });
+      await this.cache.set(String(blockId), { missed: !blockHeader, header: blockHeader });
     }
 
     return blockHeader;
@@ -215,7 +298,7 @@ export class ConsensusProviderService {
         throw new MaxDeepError(`Error when trying to get previous not missed block header. From ${slot} to ${slot - maxDeep}`);
       }
       this.logger.log(`Try to get previous info from ${slot - 1} slot because ${slot} is missing`);
-      return await this.getPreviousNotMissedBlockHeader(slot - 1, maxDeep - 1);
+      return await this.getPreviousNotMissedBlockHeader(slot - 1, maxDeep - 1, ignoreCache);
     }
     return header;
   }
@@ -269,29 +352,91 @@ export class ConsensusProviderService {
     return blockInfo;
   }
 
-  public async getState(stateId: StateId): Promise<ContainerTreeViewType<typeof anySsz.BeaconState.fields>> {
+  /**
+   * Returns deserialized state. The same state is shared by all duties of the processed epoch until `releaseState` is called
+   */
+  public async getState(stateId: StateId): Promise<StateView> {
+    const key = String(stateId);
+    let view = this.states.get(key);
+    if (!view) {
+      view = this.loadState(stateId);
+      // failed state will be requested again
+      view.catch(() => {
+        if (this.states.get(key) == view) this.releaseState(stateId);
+      });
+      this.states.set(key, view);
+    }
+    return await view;
+  }
+
+  public releaseState(stateId: StateId): void {
+    this.states.delete(String(stateId));
+  }
+
+  protected async loadState(stateId: StateId): Promise<StateView> {
+    const { bytes, forkName } =
+      (await this.takePrefetched<StateBytes>(this.endpoints.state(stateId))) ?? (await this.getStateBytes(stateId));
+    // ugly hack to import ESModule to CommonJS project
+    ssz = await eval(`import('@lodestar/types').then((m) => m.ssz)`);
+    return ssz[forkName].BeaconState.deserializeToView(bytes) as any as StateView;
+  }
+
+  /**
+   * Requests state and attestation committees needed to process the epoch in advance.
+   * Previously prefetched data is dropped, so only one prefetched state is held in memory
+   */
+  public prefetchState(stateId: StateId, epoch: Epoch): void {
+    this.prefetched.clear();
+    // Failed prefetch is not an error, data will be requested again when it's needed
+    const keep = (subUrl: string, response: Promise<unknown>) =>
+      this.prefetched.set(
+        subUrl,
+        response.catch(() => undefined),
+      );
+    keep(this.endpoints.state(stateId), this.getStateBytes(stateId));
+    // committees are computed from the state
+    if (this.config.get('COMMITTEES_FROM_STATE_ENABLED')) return;
+    for (const e of [epoch - 1, epoch]) {
+      const committees = this.getAttestationCommitteesBody(stateId, e).then(async (body) => Buffer.from(await body.arrayBuffer()));
+      keep(this.endpoints.attestationCommittees(stateId, e), committees);
+    }
+  }
+
+  protected async takePrefetched<T>(subUrl: string): Promise<T | undefined> {
+    const prefetched = this.prefetched.get(subUrl);
+    if (!prefetched) return;
+    this.prefetched.delete(subUrl);
+    this.logger.debug(`Get ${subUrl} from prefetched responses`);
+    return (await prefetched) as T;
+  }
+
+  protected async getStateBytes(stateId: StateId): Promise<StateBytes> {
     const { body, headers } = await this.retryRequest<{ body: BodyReadable; headers: IncomingHttpHeaders }>(
       async (apiURL: string) => await this.apiGetStream(apiURL, this.endpoints.state(stateId), { accept: 'application/octet-stream' }),
       {
         dataOnly: false,
       },
     );
-    const forkName = headers['eth-consensus-version'] as keyof typeof ForkName;
-    const bodyBytes = new Uint8Array(await body.arrayBuffer());
-    // ugly hack to import ESModule to CommonJS project
-    ssz = await eval(`import('@lodestar/types').then((m) => m.ssz)`);
-    return ssz[forkName].BeaconState.deserializeToView(bodyBytes) as any as ContainerTreeViewType<typeof anySsz.BeaconState.fields>;
+    return {
+      bytes: new Uint8Array(await body.arrayBuffer()),
+      forkName: headers['eth-consensus-version'] as keyof typeof ForkName,
+    };
   }
 
   public async getBlockInfo(blockId: BlockId): Promise<BlockInfoResponse | void> {
-    const cached: BlockCache = this.cache.get(String(blockId));
+    let cached: BlockCache = await this.cache.get(String(blockId));
+    if (!cached && typeof blockId == 'number' && this.cache.hasWarm(blockId)) {
+      // the block got on block event is taken by slot only if it's canonical, which is known by the header of the slot
+      await this.getBlockHeader(blockId);
+      cached = await this.cache.get(String(blockId));
+    }
     if (cached && (cached.missed || cached.info)) {
       this.logger.debug(`Get ${blockId} info from blocks cache`);
       return cached.missed ? undefined : cached.info;
     }
 
     const blockInfo = await this.retryRequest<BlockInfoResponse>(
-      async (apiURL: string) => this.apiGet(apiURL, this.endpoints.blockInfo(blockId)),
+      this.hedged((apiURL: string, signal: AbortSignal) => this.getBlockInfoFrom(apiURL, blockId, signal)),
       {
         maxRetries: this.config.get('CL_API_GET_BLOCK_INFO_MAX_RETRIES'),
         useFallbackOnRejected: (last_fallback_err, curr_fallback_error) => {
@@ -309,12 +454,61 @@ export class ConsensusProviderService {
       }
     });
 
-    this.cache.set(String(blockId), { missed: !blockInfo, info: blockInfo });
+    await this.cache.set(String(blockId), { missed: !blockInfo, info: blockInfo });
 
     return blockInfo;
   }
 
-  public async getAttestationCommitteesInfo(stateId: StateId, epoch: Epoch): Promise<BodyReadable> {
+  /**
+   * Requests SSZ-encoded block to avoid parsing of large JSON. JSON is used if the node doesn't support SSZ
+   */
+  protected async getBlockInfoFrom(
+    apiURL: string,
+    blockId: BlockId,
+    signal?: AbortSignal,
+  ): Promise<{ data: BlockInfoResponse; execution_optimistic?: boolean }> {
+    const subUrl = this.endpoints.blockInfo(blockId);
+    if (!this.config.get('CL_API_SSZ_BLOCKS_ENABLED') || this.sszUnsupported.has(apiURL)) {
+      return await this.apiGet(apiURL, subUrl, signal);
+    }
+    const response = await this.apiGetStream(
+      apiURL,
+      subUrl,
+      { accept: 'application/octet-stream;q=1,application/json;q=0.9' },
+      signal,
+    ).catch((e) => {
+      if (![406, 415].includes(e.$httpCode)) throw e;
+    });
+    if (!response) {
+      this.logger.warn(`CL API endpoint [${requestLabels(apiURL, '')[0]}] doesn't support SSZ-encoded blocks. JSON will be used`);
+      this.sszUnsupported.add(apiURL);
+      return await this.apiGet(apiURL, subUrl, signal);
+    }
+    const { body, headers } = response;
+    if (!String(headers['content-type']).startsWith('application/octet-stream')) {
+      return (await body.json()) as { data: BlockInfoResponse };
+    }
+    const bytes = new Uint8Array(await body.arrayBuffer());
+    // SSZ-encoded response has no `execution_optimistic` field, so it's taken from the header or the node sync status
+    const optimisticHeader = headers['eth-execution-optimistic'];
+    const execution_optimistic = optimisticHeader == undefined ? this.pool.isOptimistic(apiURL) : optimisticHeader == 'true';
+    try {
+      // ugly hack to import ESModule to CommonJS project
+      ssz = await eval(`import('@lodestar/types').then((m) => m.ssz)`);
+      return { data: decodeBlockInfo(ssz, String(headers['eth-consensus-version']), bytes), execution_optimistic };
+    } catch (e) {
+      this.logger.warn(`Unable to decode SSZ-encoded block [${blockId}]. JSON will be used. ${e.message}`);
+      return await this.apiGet(apiURL, subUrl, signal);
+    }
+  }
+
+  public async getAttestationCommitteesInfo(stateId: StateId, epoch: Epoch): Promise<Readable> {
+    const prefetched = await this.takePrefetched<Buffer>(this.endpoints.attestationCommittees(stateId, epoch));
+    if (prefetched) return Readable.from([prefetched]);
+    return await this.getAttestationCommitteesBody(stateId, epoch);
+  }
+
+  protected async getAttestationCommitteesBody(stateId: StateId, epoch: Epoch): Promise<BodyReadable> {
     const { body }: BodyReadable = await this.retryRequest(
       async (apiURL: string) => await this.apiGetStream(apiURL, this.endpoints.attestationCommittees(stateId, epoch)),
       {
@@ -328,6 +522,32 @@ export class ConsensusProviderService {
     return await this.retryRequest(async (apiURL: string) => this.apiGet(apiURL, this.endpoints.syncCommittee(stateId, epoch)));
   }
 
+  public async getAttestationRewards(epoch: Epoch, validators: string[]): Promise<AttestationRewardsResponse> {
+    return await this.retryRequest(async (apiURL: string) => this.apiPost(apiURL, this.endpoints.attestationRewards(epoch), validators));
+  }
+
+  /**
+   * Returns nothing for a missed block
+   */
+  public async getSyncCommitteeRewards(blockId: BlockId, validators: string[]): Promise<SyncCommitteeRewardResponse[] | void> {
+    return await this.retryRequest<SyncCommitteeRewardResponse[]>(async (apiURL: string) =>
+      this.apiPost(apiURL, this.endpoints.syncCommitteeRewards(blockId), validators),
+    ).catch((e) => {
+      if (404 != e.$httpCode) throw e;
+    });
+  }
+
+  /**
+   * Returns nothing for a missed block
+   */
+  public async getBlockRewards(blockId: BlockId): Promise<BlockRewardsResponse | void> {
+    return await this.retryRequest<BlockRewardsResponse>(async (apiURL: string) =>
+      this.apiGet(apiURL, this.endpoints.blockRewards(blockId)),
+    ).catch((e) => {
+      if (404 != e.$httpCode) throw e;
+    });
+  }
+
   public async getCanonicalProposerDuties(epoch: Epoch, maxRetriesForGetCanonical = 3, ignoreCache = false): Promise<ProposerDutyInfo[]> {
     const retry = retrier(this.logger, maxRetriesForGetCanonical, 100, 10000, true);
     const request = async () => {
@@ -353,6 +573,88 @@ export class ConsensusProviderService {
       });
   }
 
+  public async getBlockHeaderFromAll(blockId: BlockId): Promise<Map<string, BlockHeaderResponse | undefined>> {
+    return await this.requestAll(this.endpoints.beaconHeaders(blockId), (r: { data: BlockHeaderResponse }) => r.data);
+  }
+
+  public async getFinalityCheckpointsFromAll(stateId: StateId): Promise<Map<string, FinalityCheckpointsResponse | undefined>> {
+    return await this.requestAll(this.endpoints.finalityCheckpoints(stateId), (r: { data: FinalityCheckpointsResponse }) => r.data);
+  }
+
+  public async getDutyDependentRootFromAll(epoch: Epoch): Promise<Map<string, string | undefined>> {
+    return await this.requestAll(this.endpoints.proposerDutes(epoch), (r: { dependent_root: string }) => r.dependent_root);
+  }
+
+  /**
+   * Requests the same data from all endpoints to compare them. Value of the endpoint which failed to answer is `undefined`
+   */
+  protected async requestAll<R, T>(subUrl: string, map: (response: R) => T): Promise<Map<string, T | undefined>> {
+    const apiUrls = this.pool.getOrdered();
+    const responses = await Promise.allSettled(apiUrls.map((apiURL) => this.pool.track(apiURL, () => this.apiGet<R>(apiURL, subUrl))));
+    const result = new Map<string, T | undefined>();
+    responses.forEach((response, i) => {
+      if (response.status == 'fulfilled') return result.set(apiUrls[i], map(response.value));
+      this.logger.warn(`Unable to get ${subUrl} for consistency check. ${response.reason.message}`);
+      result.set(apiUrls[i], undefined);
+    });
+    return result;
+  }
+
+  /**
+   * Subscribe to beacon node events stream.
+   * Resolves when the stream is closed by the node
+   */
+  public async subscribeToEvents(topics: EventTopic[], onEvent: (event: ChainEvent) => void): Promise<void> {
+    const { body } = await this.retryRequest<{ body: BodyReadable }>(
+      async (apiURL: string) => await this.apiGetStream(apiURL, this.endpoints.events(topics), { accept: 'text/event-stream' }),
+      {
+        dataOnly: false,
+      },
+    );
+    let buffer = '';
+    for await (const chunk of body) {
+      buffer += chunk.toString().replace(/\r/g, '');
+      // messages are separated by an empty line, the last one can be incomplete
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop();
+      for (const message of messages) {
+        const lines = message.split('\n');
+        const topic = lines
+          .find((l) => l.startsWith('event:'))
+          ?.slice('event:'.length)
+          .trim();
+        const data = lines
+          .filter((l) => l.startsWith('data:'))
+          .map((l) => l.slice('data:'.length).trim())
+          .join('');
+        if (!topic || !data) continue;
+        onEvent(<ChainEvent>{ topic, data: JSON.parse(data) });
+      }
+    }
+  }
+
+  /**
+   * Periodically requests sync status from all endpoints to keep their health scores actual
+   */
+  public async startEndpointsProbing(): Promise<never> {
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      await Promise.allSettled(
+        this.apiUrls.map(async (apiURL) => {
+          const { data } = await this.pool.track(apiURL, () => this.apiGet<{ data: SyncingResponse }>(apiURL, this.endpoints.syncing));
+          this.pool.setSyncStatus(apiURL, {
+            headSlot: Number(data.head_slot),
+            syncDistance: Number(data.sync_distance),
+            isSyncing: data.is_syncing,
+            isOptimistic: !!data.is_optimistic,
+          });
+        }),
+      );
+      this.pool.updateMetrics();
+      await sleep(this.config.get('CL_API_PROBE_INTERVAL_MS'));
+    }
+  }
+
   public async getSlotTime(slot: Slot): Promise<number> {
     return (await this.getGenesisTime()) + slot * this.config.get('CHAIN_SLOT_TIME_SECONDS');
   }
@@ -365,13 +667,28 @@ export class ConsensusProviderService {
       useFallbackOnResolved: options?.useFallbackOnResolved ?? (() => false), // do NOT use fallback on success as default
     };
     const retry = retrier(this.logger, options.maxRetries, 100, 10000, true);
+    const apiUrls = this.pool.getOrdered();
+    const trackedCallback = (apiURL: string) =>
+      this.pool.track(apiURL, async () => {
+        const r = await callback(apiURL);
+        // Data of optimistic node isn't verified by execution layer and can be changed
+        if (r?.execution_optimistic === true) {
+          this.pool.setOptimistic(apiURL);
+          throw new OptimisticResponseError(errCommon('Response is optimistic', '', apiURL));
+        }
+        return r;
+      });
     let res;
     let err;
-    for (let i = 0; i < this.apiUrls.length; i++) {
+    for (let i = 0; i < apiUrls.length; i++) {
       if (res) break;
-      res = await callback(this.apiUrls[i])
-        .catch(rejectDelay(this.config.get('CL_API_RETRY_DELAY_MS')))
-        .catch(() => retry(() => callback(this.apiUrls[i])))
+      res = await trackedCallback(apiUrls[i])
+        .catch((e) =>
+          // optimistic node returns the same not verified data, so the next endpoint is requested at once
+          e instanceof OptimisticResponseError
+            ? Promise.reject(e)
+            : rejectDelay(this.config.get('CL_API_RETRY_DELAY_MS'))(e).catch(() => retry(() => trackedCallback(apiUrls[i]))),
+        )
         .then((r: any) => {
           if (options.useFallbackOnResolved(r)) {
             err = Error('Unresolved data on a successful CL API response');
@@ -386,7 +703,7 @@ export class ConsensusProviderService {
           }
           throw current_error;
         });
-      if (i == this.apiUrls.length - 1 && !res) {
+      if (i == apiUrls.length - 1 && !res) {
         err.message = `Error while doing CL API request on all passed URLs. ${err.message}`;
         throw err;
       }
@@ -399,11 +716,64 @@ export class ConsensusProviderService {
     else return res;
   }
 
+  /**
+   * Sends the same request to the next healthy endpoint if the first one hasn't answered within `CL_API_HEDGE_DELAY_MS`.
+   * The first successful response is used and the other request is cancelled.
+   * The first request is measured by the caller, the hedge request is measured here
+   */
+  protected hedged<T>(callback: (apiURL: string, signal: AbortSignal) => Promise<T>): (apiURL: string) => Promise<T> {
+    return (apiURL: string) => {
+      const apiUrls = this.pool.getOrdered();
+      const position = apiUrls.indexOf(apiURL);
+      const hedgeURL = [...apiUrls.slice(position + 1), ...apiUrls.slice(0, position)].find((url) => !this.pool.isCircuitOpen(url));
+      const delay = this.config.get('CL_API_HEDGE_DELAY_MS');
+      if (!delay || !hedgeURL) return callback(apiURL, undefined);
+      return new Promise<T>((resolve, reject) => {
+        const controllers = [new AbortController(), new AbortController()];
+        const errors = [];
+        let pending = 0;
+        let settled = false;
+        let hedgeStarted = false;
+        const run = (url: string, index: number) => {
+          pending++;
+          const { signal } = controllers[index];
+          const request = index ? this.pool.track(url, () => callback(url, signal), signal) : callback(url, signal);
+          request.then(
+            (r) => {
+              if (settled) return;
+              settled = true;
+              clearTimeout(timer);
+              controllers[1 - index].abort();
+              if (hedgeStarted) this.prometheus.clApiHedgedRequestsCount.inc({ winner: index ? 'hedge' : 'primary' });
+              resolve(r);
+            },
+            (e) => {
+              errors[index] = e;
+              if (--pending > 0 || settled) return;
+              settled = true;
+              clearTimeout(timer);
+              reject(errors[0] ?? e);
+            },
+          );
+        };
+        const timer = setTimeout(() => {
+          if (settled) return;
+          hedgeStarted = true;
+          run(hedgeURL, 1);
+        }, delay);
+        run(apiURL, 0);
+      });
+    };
+  }
+
   @TrackCLRequest
-  protected async apiGet<T>(apiURL: string, subUrl: string): Promise<T> {
-    const { body, statusCode } = await request(urljoin(apiURL, subUrl), {
+  protected async apiGet<T>(apiURL: string, subUrl: string, signal?: AbortSignal): Promise<T> {
+    const { url, headers } = this.config.getApiAuth(apiURL);
+    const { body, statusCode } = await request(urljoin(url, subUrl), {
       method: 'GET',
       headersTimeout: this.config.get('CL_API_GET_RESPONSE_TIMEOUT'),
+      headers,
+      signal,
     }).catch((e) => {
       if (e.response) {
         throw new ResponseError(errRequest(e.response.body, subUrl, apiURL), e.response.statusCode);
@@ -417,16 +787,37 @@ export class ConsensusProviderService {
     return (await body.json()) as T;
   }
 
+  @TrackCLRequest
+  protected async apiPost<T>(apiURL: string, subUrl: string, body: unknown): Promise<T> {
+    const { url, headers } = this.config.getApiAuth(apiURL);
+    const response = await request(urljoin(url, subUrl), {
+      method: 'POST',
+      headersTimeout: this.config.get('CL_API_GET_RESPONSE_TIMEOUT'),
+      headers: { ...headers, 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    }).catch((e) => {
+      throw new ResponseError(errCommon(e.message, subUrl, apiURL));
+    });
+    if (response.statusCode !== 200) {
+      const errorText = await response.body.text();
+      throw new ResponseError(errRequest(errorText, subUrl, apiURL), response.statusCode);
+    }
+    return (await response.body.json()) as T;
+  }
+
   @TrackCLRequest
   protected async apiGetStream(
     apiURL: string,
     subUrl: string,
     headersToSend?: Record<string, string>,
+    signal?: AbortSignal,
   ): Promise<{ body: BodyReadable; headers: IncomingHttpHeaders }> {
-    const { body, headers, statusCode } = await request(urljoin(apiURL, subUrl), {
+    const auth = this.config.getApiAuth(apiURL);
+    const { body, headers, statusCode } = await request(urljoin(auth.url, subUrl), {
       method: 'GET',
       headersTimeout: this.config.get('CL_API_GET_RESPONSE_TIMEOUT'),
-      headers: headersToSend,
+      headers: { ...auth.headers, ...headersToSend },
+      signal,
     }).catch((e) => {
       if (e.response) {
         throw new ResponseError(errRequest(e.response.body, subUrl, apiURL), e.response.statusCode);
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+
+import { EndpointPoolService } from './endpoint-pool.service';
+
+@Module({
+  providers: [EndpointPoolService],
+  exports: [EndpointPoolService],
+})
+export class EndpointPoolModule {}
@@ -0,0 +1,159 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { PrometheusService, requestLabels } from 'common/prometheus';
+
+import { Slot } from '../types';
+
+// weight of the last measurement in moving averages
+const ALPHA = 0.2;
+
+interface EndpointStats {
+  url: string;
+  // position in `CL_API_URLS`, used to order endpoints with equal scores
+  index: number;
+  latencyMs: number;
+  errorRate: number;
+  headSlot: Slot;
+  // distance between the node head and the current slot
+  syncDistance: number;
+  isSyncing: boolean;
+  isOptimistic: boolean;
+  consecutiveFailures: number;
+  // time when the circuit breaker was opened
+  openedAt?: number;
+}
+
+/**
+ * Orders CL API endpoints by their health instead of the order they are passed in `CL_API_URLS`.
+ * Score of endpoint is based on moving averages of latency and error rate and on head lag from the most advanced endpoint.
+ * Syncing and optimistic endpoints are used only when synced ones fail.
+ * Endpoint with `CL_API_CIRCUIT_BREAKER_FAILURES` consecutive failures is used only when all other endpoints fail,
+ * until `CL_API_CIRCUIT_BREAKER_COOLDOWN_MS` is passed or it's successfully probed
+ */
+@Injectable()
+export class EndpointPoolService {
+  protected stats: EndpointStats[];
+
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+  ) {
+    this.stats = this.config.get('CL_API_URLS').map((url, index) => ({
+      url,
+      index,
+      latencyMs: 0,
+      errorRate: 0,
+      headSlot: 0,
+      syncDistance: 0,
+      isSyncing: false,
+      isOptimistic: false,
+      consecutiveFailures: 0,
+    }));
+  }
+
+  public getOrdered(): string[] {
+    const byScore = (a: EndpointStats, b: EndpointStats) => this.score(b) - this.score(a) || a.index - b.index;
+    const isSynced = (s: EndpointStats) => !s.isSyncing && !s.isOptimistic;
+    const synced = this.stats.filter((s) => !this.isOpen(s) && isSynced(s)).sort(byScore);
+    const notSynced = this.stats.filter((s) => !this.isOpen(s) && !isSynced(s)).sort(byScore);
+    const open = this.stats.filter((s) => this.isOpen(s)).sort(byScore);
+    return [...synced, ...notSynced, ...open].map((s) => s.url);
+  }
+
+  /**
+   * Measures the request to the endpoint. Client errors (e.g. 404 for missed block) mean the endpoint is healthy.
+   * Request cancelled by the `signal` isn't measured
+   */
+  public async track<T>(url: string, request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await request();
+      this.onSuccess(url, Date.now() - startedAt);
+      return result;
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      if (e.$httpCode && e.$httpCode < 500) this.onSuccess(url, Date.now() - startedAt);
+      else this.onFailure(url);
+      throw e;
+    }
+  }
+
+  public setSyncStatus(url: string, status: { headSlot: Slot; syncDistance: number; isSyncing: boolean; isOptimistic: boolean }): void {
+    const stats = this.get(url);
+    if (!stats) return;
+    if (!stats.isSyncing && !stats.isOptimistic && (status.isSyncing || status.isOptimistic)) {
+      this.logger.warn(`CL API endpoint [${requestLabels(url, '')[0]}] is syncing or optimistic. It will be used as the last resort`);
+    }
+    Object.assign(stats, status);
+  }
+
+  /**
+   * Optimistic response means the node hasn't verified the block by execution layer yet
+   */
+  public setOptimistic(url: string): void {
+    const stats = this.get(url);
+    if (stats) stats.isOptimistic = true;
+  }
+
+  public isCircuitOpen(url: string): boolean {
+    const stats = this.get(url);
+    return !!stats && this.isOpen(stats);
+  }
+
+  public isOptimistic(url: string): boolean {
+    return !!this.get(url)?.isOptimistic;
+  }
+
+  public updateMetrics(): void {
+    for (const stats of this.stats) {
+      const [target] = requestLabels(stats.url, '');
+      this.prometheus.clApiEndpointScore.set({ target }, this.score(stats));
+      this.prometheus.clApiEndpointCircuitOpen.set({ target }, +this.isOpen(stats));
+      this.prometheus.clApiEndpointIsSyncing.set({ target }, +stats.isSyncing);
+      this.prometheus.clApiEndpointIsOptimistic.set({ target }, +stats.isOptimistic);
+      this.prometheus.clApiEndpointSyncDistance.set({ target }, stats.syncDistance);
+    }
+  }
+
+  protected score(stats: EndpointStats): number {
+    const maxHeadSlot = Math.max(...this.stats.map((s) => s.headSlot));
+    const headLagEpochs = (maxHeadSlot - stats.headSlot) / this.config.get('FETCH_INTERVAL_SLOTS');
+    return (1 - stats.errorRate) / (1 + stats.latencyMs / 1000) / (1 + headLagEpochs);
+  }
+
+  protected isOpen(stats: EndpointStats): boolean {
+    // after cooldown the circuit is half-open: the next request decides whether to close it or open it again
+    return stats.openedAt != undefined && Date.now() - stats.openedAt < this.config.get('CL_API_CIRCUIT_BREAKER_COOLDOWN_MS');
+  }
+
+  protected onSuccess(url: string, latencyMs: number): void {
+    const stats = this.get(url);
+    if (!stats) return;
+    stats.latencyMs = stats.latencyMs ? ALPHA * latencyMs + (1 - ALPHA) * stats.latencyMs : latencyMs;
+    stats.errorRate = (1 - ALPHA) * stats.errorRate;
+    stats.consecutiveFailures = 0;
+    if (stats.openedAt != undefined) {
+      this.logger.log(`CL API endpoint [${requestLabels(url, '')[0]}] is healthy again. Circuit breaker is closed`);
+      stats.openedAt = undefined;
+    }
+  }
+
+  protected onFailure(url: string): void {
+    const stats = this.get(url);
+    if (!stats) return;
+    stats.errorRate = ALPHA + (1 - ALPHA) * stats.errorRate;
+    stats.consecutiveFailures++;
+    const halfOpen = stats.openedAt != undefined && !this.isOpen(stats);
+    if (halfOpen || (stats.openedAt == undefined && stats.consecutiveFailures >= this.config.get('CL_API_CIRCUIT_BREAKER_FAILURES'))) {
+      this.logger.warn(`CL API endpoint [${requestLabels(url, '')[0]}] is unhealthy. Circuit breaker is opened`);
+      stats.openedAt = Date.now();
+    }
+  }
+
+  protected get(url: string): EndpointStats | undefined {
+    return this.stats.find((s) => s.url == url);
+  }
+}
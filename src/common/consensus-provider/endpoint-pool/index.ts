@@ -0,0 +1,2 @@
+export * from './endpoint-pool.module';
+export * from './endpoint-pool.service';
@@ -1,2 +1,3 @@
 export * from './response.error';
 export * from './maxdeep.error';
+export * from './optimistic.error';
@@ -0,0 +1,6 @@
+import { ResponseError } from './response.error';
+
+/**
+ * Data of optimistic node isn't verified by execution layer yet, so it's not requested from the same node again
+ */
+export class OptimisticResponseError extends ResponseError {}
@@ -0,0 +1,48 @@
+import { RootHex } from '../types';
+
+export enum EventTopic {
+  Head = 'head',
+  Block = 'block',
+  FinalizedCheckpoint = 'finalized_checkpoint',
+  ChainReorg = 'chain_reorg',
+}
+
+export interface HeadEvent {
+  slot: string;
+  block: RootHex;
+  state: RootHex;
+  epoch_transition: boolean;
+  previous_duty_dependent_root: RootHex;
+  current_duty_dependent_root: RootHex;
+  execution_optimistic: boolean;
+}
+
+export interface BlockEvent {
+  slot: string;
+  block: RootHex;
+  execution_optimistic: boolean;
+}
+
+export interface FinalizedCheckpointEvent {
+  block: RootHex;
+  state: RootHex;
+  epoch: string;
+  execution_optimistic: boolean;
+}
+
+export interface ChainReorgEvent {
+  slot: string;
+  depth: string;
+  old_head_block: RootHex;
+  new_head_block: RootHex;
+  old_head_state: RootHex;
+  new_head_state: RootHex;
+  epoch: string;
+  execution_optimistic: boolean;
+}
+
+export type ChainEvent =
+  | { topic: EventTopic.Head; data: HeadEvent }
+  | { topic: EventTopic.Block; data: BlockEvent }
+  | { topic: EventTopic.FinalizedCheckpoint; data: FinalizedCheckpointEvent }
+  | { topic: EventTopic.ChainReorg; data: ChainReorgEvent };
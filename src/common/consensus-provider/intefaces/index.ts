@@ -1 +1,2 @@
 export * from './response.interface';
+export * from './events.interface';
@@ -58,6 +58,8 @@ export interface BlockInfoResponse {
       execution_payload: {
         withdrawals: Withdrawal[];
       };
+      // from Electra
+      execution_requests?: ExecutionRequests;
     };
   };
 }
@@ -114,6 +116,8 @@ export interface ProposerDutyInfo {
 
 export interface BeaconBlockAttestation {
   aggregation_bits: string;
+  // from Electra, indexes of committees whose aggregation bits are concatenated in `aggregation_bits`. `data.index` is 0
+  committee_bits?: string;
   data: {
     slot: string;
     index: string;
@@ -174,3 +178,70 @@ export interface SyncCommitteeValidator {
 export interface VersionResponse {
   version: string;
 }
+
+export interface SyncingResponse {
+  head_slot: string;
+  sync_distance: string;
+  is_syncing: boolean;
+  is_optimistic?: boolean;
+  el_offline?: boolean;
+}
+
+export interface AttestationRewardsResponse {
+  ideal_rewards: {
+    effective_balance: string;
+    head: string;
+    target: string;
+    source: string;
+    inclusion_delay?: string;
+    inactivity: string;
+  }[];
+  total_rewards: {
+    validator_index: ValidatorIndex;
+    head: string;
+    target: string;
+    source: string;
+    inclusion_delay?: string;
+    inactivity: string;
+  }[];
+}
+
+export interface SyncCommitteeRewardResponse {
+  validator_index: ValidatorIndex;
+  reward: string;
+}
+
+export interface BlockRewardsResponse {
+  proposer_index: ValidatorIndex;
+  total: string;
+  attestations: string;
+  sync_aggregate: string;
+  proposer_slashings: string;
+  attester_slashings: string;
+}
+
+export interface DepositRequest {
+  pubkey: string;
+  withdrawal_credentials: string;
+  amount: string;
+  signature: string;
+  index: string;
+}
+
+export interface WithdrawalRequest {
+  source_address: string;
+  validator_pubkey: string;
+  amount: string;
+}
+
+export interface ConsolidationRequest {
+  source_address: string;
+  source_pubkey: string;
+  target_pubkey: string;
+}
+
+export interface ExecutionRequests {
+  deposits: DepositRequest[];
+  withdrawals: WithdrawalRequest[];
+  consolidations: ConsolidationRequest[];
+}
@@ -0,0 +1,33 @@
+import { BeaconBlockAttestation, BlockInfoResponse, ExecutionRequests, Withdrawal } from '../intefaces';
+
+type SszTypes = typeof import('@lodestar/types').ssz;
+type ForkName = keyof SszTypes & ('phase0' | 'altair' | 'bellatrix' | 'capella' | 'deneb' | 'electra');
+type Block = import('@lodestar/types').electra.BeaconBlock;
+
+/**
+ * Decodes SSZ-encoded signed block and converts it to the JSON API shape.
+ * Only the fields used by duties processing are converted, the rest of the block (e.g. transactions) is skipped
+ */
+export const decodeBlockInfo = (ssz: SszTypes, forkName: string, bytes: Uint8Array): BlockInfoResponse => {
+  const types = ssz[forkName as ForkName];
+  if (!types) throw Error(`Unknown fork [${forkName}] of SSZ-encoded block`);
+  // fields which don't exist in the block's fork are undefined
+  const block = types.SignedBeaconBlock.deserialize(bytes).message as Block;
+  const { syncAggregate, executionPayload, executionRequests } = block.body;
+  return {
+    message: {
+      slot: String(block.slot),
+      proposer_index: String(block.proposerIndex),
+      body: {
+        attestations: block.body.attestations.map((a) => types.Attestation.toJson(a) as unknown as BeaconBlockAttestation),
+        sync_aggregate: syncAggregate && {
+          sync_committee_bits: ssz.altair.SyncAggregate.fields.syncCommitteeBits.toJson(syncAggregate.syncCommitteeBits) as string,
+        },
+        execution_payload: executionPayload && {
+          withdrawals: executionPayload.withdrawals?.map((w) => ssz.capella.Withdrawal.toJson(w) as unknown as Withdrawal),
+        },
+        execution_requests: executionRequests && (ssz.electra.ExecutionRequests.toJson(executionRequests) as unknown as ExecutionRequests),
+      },
+    },
+  };
+};
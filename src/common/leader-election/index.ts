@@ -0,0 +1,2 @@
+export * from './leader-election.module';
+export * from './leader-election.service';
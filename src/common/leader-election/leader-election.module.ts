@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+
+import { ClickhouseModule } from 'storage/clickhouse';
+
+import { LeaderElectionService } from './leader-election.service';
+
+@Module({
+  imports: [ClickhouseModule],
+  providers: [LeaderElectionService],
+  exports: [LeaderElectionService],
+})
+export class LeaderElectionModule {}
@@ -0,0 +1,79 @@
+import { hostname } from 'os';
+
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnApplicationShutdown } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { sleep } from 'common/functions/sleep';
+import { PrometheusService } from 'common/prometheus';
+import { ClickhouseService } from 'storage';
+
+const LEASE_NAME = 'inspector';
+// Time for concurrent claims of other instances to become visible
+const CLAIM_SETTLE_MS = 1000;
+
+/**
+ * Elects the only instance that processes epochs when several instances share the same DB.
+ * Leader renews the lease in DB and other instances take it over when the lease expires
+ */
+@Injectable()
+export class LeaderElectionService implements OnApplicationShutdown {
+  protected readonly instanceId: string;
+  protected leaseExpiresAt = 0;
+
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly storage: ClickhouseService,
+  ) {
+    this.instanceId = this.config.get('LEADER_ELECTION_INSTANCE_ID') || `${hostname()}-${process.pid}`;
+  }
+
+  public start(): void {
+    if (!this.config.get('LEADER_ELECTION_ENABLED')) return;
+    this.logger.log(`Leader election is enabled. Instance id [${this.instanceId}]`);
+    this.loop().then();
+  }
+
+  /**
+   * Leadership is kept until the lease expires, even if it can't be renewed because of DB errors
+   */
+  public isLeader(): boolean {
+    if (!this.config.get('LEADER_ELECTION_ENABLED')) return true;
+    return Date.now() < this.leaseExpiresAt;
+  }
+
+  public async onApplicationShutdown(): Promise<void> {
+    if (!this.isLeader()) return;
+    // Let another instance take over without waiting for the lease expiration
+    await this.storage.releaseLeaderLease(LEASE_NAME, this.instanceId).catch((e) => this.logger.error(e));
+    this.leaseExpiresAt = 0;
+  }
+
+  protected async loop(): Promise<never> {
+    const ttl = this.config.get('LEADER_ELECTION_LEASE_SECONDS');
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const wasLeader = this.isLeader();
+      try {
+        const requestedAt = Date.now();
+        await this.storage.claimLeaderLease(LEASE_NAME, this.instanceId, ttl);
+        // A new leader is confirmed only when it is still the single winner after other claims made at the same time are visible
+        if (!wasLeader) await sleep(CLAIM_SETTLE_MS);
+        const holder = await this.storage.getLeaderLeaseHolder(LEASE_NAME);
+        this.leaseExpiresAt = holder == this.instanceId ? requestedAt + ttl * 1000 : 0;
+      } catch (e) {
+        this.logger.error(`Error while renewing leader lease`);
+        this.logger.error(e as Error);
+      }
+      const isLeader = this.isLeader();
+      if (wasLeader != isLeader) {
+        this.logger.warn(isLeader ? 'Instance became the leader' : 'Instance is not the leader anymore');
+      }
+      this.prometheus.isLeader.set(+isLeader);
+      // Renew the lease several times during its lifetime to not lose it because of a single failed attempt
+      await sleep((ttl * 1000) / 3);
+    }
+  }
+}
@@ -9,6 +9,13 @@ export const METRIC_OUTGOING_EL_REQUESTS_DURATION_SECONDS = `outgoing_el_request
 export const METRIC_OUTGOING_EL_REQUESTS_COUNT = `outgoing_el_requests_count`;
 export const METRIC_OUTGOING_CL_REQUESTS_DURATION_SECONDS = `outgoing_cl_requests_duration_seconds`;
 export const METRIC_OUTGOING_CL_REQUESTS_COUNT = `outgoing_cl_requests_count`;
+export const METRIC_CL_API_ENDPOINT_SCORE = `cl_api_endpoint_score`;
+export const METRIC_CL_API_ENDPOINT_CIRCUIT_OPEN = `cl_api_endpoint_circuit_open`;
+export const METRIC_CL_API_ENDPOINT_IS_SYNCING = `cl_api_endpoint_is_syncing`;
+export const METRIC_CL_API_ENDPOINT_IS_OPTIMISTIC = `cl_api_endpoint_is_optimistic`;
+export const METRIC_CL_API_ENDPOINT_SYNC_DISTANCE = `cl_api_endpoint_sync_distance`;
+export const METRIC_CL_API_HEDGED_REQUESTS_COUNT = `cl_api_hedged_requests_count`;
+export const METRIC_CL_API_DIVERGENCE_COUNT = `cl_api_divergence_count`;
 export const METRIC_OUTGOING_KEYSAPI_REQUESTS_DURATION_SECONDS = `outgoing_keysapi_requests_duration_seconds`;
 export const METRIC_OUTGOING_KEYSAPI_REQUESTS_COUNT = `outgoing_keysapi_requests_count`;
 export const METRIC_TASK_DURATION_SECONDS = `task_duration_seconds`;
@@ -21,10 +28,12 @@ export const METRIC_USER_VALIDATORS = `user_validators`;
 export const METRIC_FETCH_INTERVAL = `fetch_interval`;
 export const METRIC_SYNC_PARTICIPATION_DISTANCE_DOWN_FROM_CHAIN_AVG = `sync_participation_distance_down_from_chain_avg`;
 export const METRIC_VALIDATOR_BALANCES_DELTA = `validator_balances_delta`;
+export const METRIC_VALIDATOR_BALANCES_DELTA_PER_32_ETH = `validator_balances_delta_per_32_eth`;
 export const METRIC_OPERATOR_REAL_BALANCE_DELTA = `operator_real_balance_delta`;
 export const METRIC_OPERATOR_CALCULATED_BALANCE_DELTA = `operator_calculated_balance_delta`;
 export const METRIC_OPERATOR_CALCULATED_BALANCE_CALCULATION_ERROR = `operator_calculated_balance_calculation_error`;
 export const METRIC_VALIDATOR_QUANTILE_001_BALANCES_DELTA = `validator_quantile_001_balances_delta`;
+export const METRIC_VALIDATOR_QUANTILE_001_BALANCES_DELTA_PER_32_ETH = `validator_quantile_001_balances_delta_per_32_eth`;
 export const METRIC_VALIDATOR_COUNT_WITH_NEGATIVE_BALANCES_DELTA = `validator_count_with_negative_balances_delta`;
 export const METRIC_OTHER_VALIDATOR_COUNT_WITH_GOOD_SYNC_PARTICIPATION = `other_validator_count_with_good_sync_participation`;
 export const METRIC_VALIDATOR_COUNT_WITH_GOOD_SYNC_PARTICIPATION = `validator_count_with_good_sync_participation`;
@@ -53,18 +62,31 @@ export const METRIC_OPERATOR_SYNC_PARTICIPATION_AVG_PERCENT = `operator_sync_par
 export const METRIC_OTHER_SYNC_PARTICIPATION_AVG_PERCENT = `other_sync_participation_avg_percent`;
 export const METRIC_CHAIN_SYNC_PARTICIPATION_AVG_PERCENT = `chain_sync_participation_avg_percent`;
 export const METRIC_EPOCH_NUMBER = `epoch_number`;
+export const METRIC_EPOCH_REPROCESSING_COUNT = `epoch_reprocessing_count`;
+export const METRIC_HEAD_AND_FINALIZED_DIFF_VALIDATOR_COUNT = `head_and_finalized_diff_validator_count`;
+export const METRIC_EPOCH_GAPS_COUNT = `epoch_gaps_count`;
+export const METRIC_IS_LEADER = `is_leader`;
 export const METRIC_TOTAL_BALANCE_24H_DIFFERENCE = `total_balance_24h_difference`;
 export const METRIC_OPERATOR_BALANCE_24H_DIFFERENCE = `operator_balance_24h_difference`;
 export const METRIC_AVG_CHAIN_REWARD = `avg_chain_reward`;
 export const METRIC_OPERATOR_REWARD = `operator_reward`;
+export const METRIC_OPERATOR_REWARD_API_DISCREPANCY = `operator_reward_api_discrepancy`;
+export const METRIC_OPERATOR_REWARD_PER_ETH = `operator_reward_per_eth`;
 export const METRIC_AVG_CHAIN_MISSED_REWARD = `avg_chain_missed_reward`;
 export const METRIC_OPERATOR_MISSED_REWARD = `operator_missed_reward`;
 export const METRIC_AVG_CHAIN_PENALTY = `avg_chain_penalty`;
 export const METRIC_OPERATOR_PENALTY = `operator_penalty`;
+export const METRIC_OPERATOR_SLASHING_PENALTY = `operator_slashing_penalty`;
 export const METRIC_OPERATOR_WITHDRAWALS_SUM = `operator_withdrawals_sum`;
 export const METRIC_OTHER_CHAIN_WITHDRAWALS_SUM = `other_chain_withdrawals_sum`;
 export const METRIC_OPERATOR_WITHDRAWALS_COUNT = `operator_withdrawals_count`;
 export const METRIC_OTHER_CHAIN_WITHDRAWALS_COUNT = `other_chain_withdrawals_count`;
+export const METRIC_OPERATOR_EXECUTION_REQUESTS_SUM = `operator_execution_requests_sum`;
+export const METRIC_OPERATOR_EXECUTION_REQUESTS_COUNT = `operator_execution_requests_count`;
+export const METRIC_OTHER_CHAIN_EXECUTION_REQUESTS_COUNT = `other_chain_execution_requests_count`;
+export const METRIC_PENDING_QUEUE_SIZE = `pending_queue_size`;
+export const METRIC_OPERATOR_PENDING_QUEUE_COUNT = `operator_pending_queue_count`;
+export const METRIC_OPERATOR_PENDING_QUEUE_MIN_POSITION = `operator_pending_queue_min_position`;
 
 export const METRIC_CONTRACT_KEYS_TOTAL = `contract_keys_total`;
 export const METRIC_STETH_BUFFERED_ETHER_TOTAL = `steth_buffered_ether_total`;
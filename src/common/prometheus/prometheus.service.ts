@@ -15,23 +15,42 @@ import {
   METRIC_AVG_CHAIN_REWARD,
   METRIC_BUILD_INFO,
   METRIC_CHAIN_SYNC_PARTICIPATION_AVG_PERCENT,
+  METRIC_CL_API_DIVERGENCE_COUNT,
+  METRIC_CL_API_ENDPOINT_CIRCUIT_OPEN,
+  METRIC_CL_API_ENDPOINT_IS_OPTIMISTIC,
+  METRIC_CL_API_ENDPOINT_IS_SYNCING,
+  METRIC_CL_API_ENDPOINT_SCORE,
+  METRIC_CL_API_ENDPOINT_SYNC_DISTANCE,
+  METRIC_CL_API_HEDGED_REQUESTS_COUNT,
   METRIC_CONTRACT_KEYS_TOTAL,
   METRIC_DATA_ACTUALITY,
+  METRIC_EPOCH_GAPS_COUNT,
   METRIC_EPOCH_NUMBER,
+  METRIC_EPOCH_REPROCESSING_COUNT,
   METRIC_FETCH_INTERVAL,
+  METRIC_HEAD_AND_FINALIZED_DIFF_VALIDATOR_COUNT,
   METRIC_HIGH_REWARD_VALIDATOR_COUNT_MISS_ATTESTATION_LAST_N_EPOCH,
   METRIC_HIGH_REWARD_VALIDATOR_COUNT_MISS_PROPOSE,
   METRIC_HIGH_REWARD_VALIDATOR_COUNT_WITH_SYNC_PARTICIPATION_LESS_AVG_LAST_N_EPOCH,
+  METRIC_IS_LEADER,
   METRIC_OPERATOR_BALANCE_24H_DIFFERENCE,
   METRIC_OPERATOR_CALCULATED_BALANCE_CALCULATION_ERROR,
   METRIC_OPERATOR_CALCULATED_BALANCE_DELTA,
+  METRIC_OPERATOR_EXECUTION_REQUESTS_COUNT,
+  METRIC_OPERATOR_EXECUTION_REQUESTS_SUM,
   METRIC_OPERATOR_MISSED_REWARD,
   METRIC_OPERATOR_PENALTY,
+  METRIC_OPERATOR_PENDING_QUEUE_COUNT,
+  METRIC_OPERATOR_PENDING_QUEUE_MIN_POSITION,
   METRIC_OPERATOR_REAL_BALANCE_DELTA,
   METRIC_OPERATOR_REWARD,
+  METRIC_OPERATOR_REWARD_API_DISCREPANCY,
+  METRIC_OPERATOR_REWARD_PER_ETH,
+  METRIC_OPERATOR_SLASHING_PENALTY,
   METRIC_OPERATOR_SYNC_PARTICIPATION_AVG_PERCENT,
   METRIC_OPERATOR_WITHDRAWALS_COUNT,
   METRIC_OPERATOR_WITHDRAWALS_SUM,
+  METRIC_OTHER_CHAIN_EXECUTION_REQUESTS_COUNT,
   METRIC_OTHER_CHAIN_WITHDRAWALS_COUNT,
   METRIC_OTHER_CHAIN_WITHDRAWALS_SUM,
   METRIC_OTHER_SYNC_PARTICIPATION_AVG_PERCENT,
@@ -48,6 +67,7 @@ import {
   METRIC_OUTGOING_EL_REQUESTS_DURATION_SECONDS,
   METRIC_OUTGOING_KEYSAPI_REQUESTS_COUNT,
   METRIC_OUTGOING_KEYSAPI_REQUESTS_DURATION_SECONDS,
+  METRIC_PENDING_QUEUE_SIZE,
   METRIC_STETH_BUFFERED_ETHER_TOTAL,
   METRIC_SYNC_PARTICIPATION_DISTANCE_DOWN_FROM_CHAIN_AVG,
   METRIC_TASK_DURATION_SECONDS,
@@ -58,6 +78,7 @@ import {
   METRIC_USER_VALIDATORS,
   METRIC_VALIDATORS,
   METRIC_VALIDATOR_BALANCES_DELTA,
+  METRIC_VALIDATOR_BALANCES_DELTA_PER_32_ETH,
   METRIC_VALIDATOR_COUNT_GOOD_PROPOSE,
   METRIC_VALIDATOR_COUNT_HIGH_INC_DELAY_ATTESTATION_LAST_N_EPOCH,
   METRIC_VALIDATOR_COUNT_INVALID_ATTESTATION,
@@ -72,6 +93,7 @@ import {
   METRIC_VALIDATOR_COUNT_WITH_SYNC_PARTICIPATION_LESS_AVG,
   METRIC_VALIDATOR_COUNT_WITH_SYNC_PARTICIPATION_LESS_AVG_LAST_N_EPOCH,
   METRIC_VALIDATOR_QUANTILE_001_BALANCES_DELTA,
+  METRIC_VALIDATOR_QUANTILE_001_BALANCES_DELTA_PER_32_ETH,
 } from './prometheus.constants';
 
 export enum Owner {
@@ -197,6 +219,48 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: ['name', 'target', 'status', 'code'] as const,
   });
 
+  public clApiEndpointScore = this.getOrCreateMetric('Gauge', {
+    name: METRIC_CL_API_ENDPOINT_SCORE,
+    help: 'Health score of consensus layer API endpoint based on latency, error rate and head lag',
+    labelNames: ['target'] as const,
+  });
+
+  public clApiEndpointCircuitOpen = this.getOrCreateMetric('Gauge', {
+    name: METRIC_CL_API_ENDPOINT_CIRCUIT_OPEN,
+    help: 'Whether circuit breaker of consensus layer API endpoint is opened',
+    labelNames: ['target'] as const,
+  });
+
+  public clApiEndpointIsSyncing = this.getOrCreateMetric('Gauge', {
+    name: METRIC_CL_API_ENDPOINT_IS_SYNCING,
+    help: 'Whether consensus layer node is syncing',
+    labelNames: ['target'] as const,
+  });
+
+  public clApiEndpointIsOptimistic = this.getOrCreateMetric('Gauge', {
+    name: METRIC_CL_API_ENDPOINT_IS_OPTIMISTIC,
+    help: 'Whether consensus layer node is optimistic, i.e. its head is not verified by execution layer',
+    labelNames: ['target'] as const,
+  });
+
+  public clApiEndpointSyncDistance = this.getOrCreateMetric('Gauge', {
+    name: METRIC_CL_API_ENDPOINT_SYNC_DISTANCE,
+    help: 'Distance in slots between consensus layer node head and the current slot',
+    labelNames: ['target'] as const,
+  });
+
+  public clApiHedgedRequestsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_CL_API_HEDGED_REQUESTS_COUNT,
+    help: 'Count of hedged consensus layer requests by the endpoint which answered first',
+    labelNames: ['winner'] as const,
+  });
+
+  public clApiDivergenceCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_CL_API_DIVERGENCE_COUNT,
+    help: 'Count of consensus layer API responses which differ from responses of the majority of endpoints',
+    labelNames: ['check', 'target'] as const,
+  });
+
   public outgoingKeysAPIRequestsDuration = this.getOrCreateMetric('Histogram', {
     name: METRIC_OUTGOING_KEYSAPI_REQUESTS_DURATION_SECONDS,
     help: 'Duration of outgoing KeysAPI requests',
@@ -247,6 +311,12 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: ['nos_module_id', 'nos_id', 'nos_name'],
   });
 
+  public avgValidatorBalanceDeltaPer32Eth = this.getOrCreateMetric('Gauge', {
+    name: METRIC_VALIDATOR_BALANCES_DELTA_PER_32_ETH,
+    help: 'average validator balances delta (6 epochs delta) normalized to 32 ETH effective balance',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name'],
+  });
+
   public operatorRealBalanceDelta = this.getOrCreateMetric('Gauge', {
     name: METRIC_OPERATOR_REAL_BALANCE_DELTA,
     help: 'operator real balance delta (according to state)',
@@ -271,6 +341,12 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: ['nos_module_id', 'nos_id', 'nos_name'],
   });
 
+  public validatorQuantile001BalanceDeltaPer32Eth = this.getOrCreateMetric('Gauge', {
+    name: METRIC_VALIDATOR_QUANTILE_001_BALANCES_DELTA_PER_32_ETH,
+    help: 'validator 0.1% quantile balances delta (6 epochs delta) normalized to 32 ETH effective balance',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name'],
+  });
+
   public validatorsCountWithNegativeBalanceDelta = this.getOrCreateMetric('Gauge', {
     name: METRIC_VALIDATOR_COUNT_WITH_NEGATIVE_BALANCES_DELTA,
     help: 'number of validators with negative balances delta',
@@ -439,6 +515,30 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: [],
   });
 
+  public epochReprocessingCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_EPOCH_REPROCESSING_COUNT,
+    help: 'Count of stored epochs invalidated for reprocessing',
+    labelNames: ['reason'],
+  });
+
+  public headAndFinalizedDiff = this.getOrCreateMetric('Gauge', {
+    name: METRIC_HEAD_AND_FINALIZED_DIFF_VALIDATOR_COUNT,
+    help: 'Number of validators with different duty results calculated from head and finalized states of the last reconciled epoch',
+    labelNames: ['duty'],
+  });
+
+  public epochGapsCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_EPOCH_GAPS_COUNT,
+    help: 'Number of not processed epochs found by the last gap repair scan',
+    labelNames: ['type'],
+  });
+
+  public isLeader = this.getOrCreateMetric('Gauge', {
+    name: METRIC_IS_LEADER,
+    help: 'Whether the instance is the leader processing epochs',
+    labelNames: [],
+  });
+
   public totalBalance24hDifference = this.getOrCreateMetric('Gauge', {
     name: METRIC_TOTAL_BALANCE_24H_DIFFERENCE,
     help: 'Total balance difference (24 hours)',
@@ -463,6 +563,18 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'duty'],
   });
 
+  public operatorRewardApiDiscrepancy = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_REWARD_API_DISCREPANCY,
+    help: 'difference between calculated and CL API rewards minus penalties for each duty for each operator',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'duty'],
+  });
+
+  public operatorRewardPerEth = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_REWARD_PER_ETH,
+    help: 'rewards for each duty per ETH of active validators effective balance for each operator',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'duty'],
+  });
+
   public avgChainMissedReward = this.getOrCreateMetric('Gauge', {
     name: METRIC_AVG_CHAIN_MISSED_REWARD,
     help: 'avg missed rewards for each duty',
@@ -487,6 +599,12 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'duty'],
   });
 
+  public operatorSlashingPenalty = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_SLASHING_PENALTY,
+    help: 'operator penalty of slashed validators for each type',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'type'],
+  });
+
   public operatorWithdrawalsSum = this.getOrCreateMetric('Gauge', {
     name: METRIC_OPERATOR_WITHDRAWALS_SUM,
     help: 'operator withdrawals sum',
@@ -511,6 +629,42 @@ export class PrometheusService implements OnApplicationBootstrap {
     labelNames: ['type'],
   });
 
+  public operatorExecutionRequestsSum = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_EXECUTION_REQUESTS_SUM,
+    help: 'operator execution layer requests amount sum (gwei)',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'type'],
+  });
+
+  public operatorExecutionRequestsCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_EXECUTION_REQUESTS_COUNT,
+    help: 'operator execution layer requests count',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'type'],
+  });
+
+  public otherChainExecutionRequestsCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OTHER_CHAIN_EXECUTION_REQUESTS_COUNT,
+    help: 'other chain execution layer requests count',
+    labelNames: ['type'],
+  });
+
+  public pendingQueueSize = this.getOrCreateMetric('Gauge', {
+    name: METRIC_PENDING_QUEUE_SIZE,
+    help: 'count of items in the state pending queue',
+    labelNames: ['queue'],
+  });
+
+  public operatorPendingQueueCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_PENDING_QUEUE_COUNT,
+    help: 'count of operator items in the state pending queue',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'queue'],
+  });
+
+  public operatorPendingQueueMinPosition = this.getOrCreateMetric('Gauge', {
+    name: METRIC_OPERATOR_PENDING_QUEUE_MIN_POSITION,
+    help: 'position of the first operator item in the state pending queue',
+    labelNames: ['nos_module_id', 'nos_id', 'nos_name', 'queue'],
+  });
+
   public contractKeysTotal = this.getOrCreateMetric('Gauge', {
     name: METRIC_CONTRACT_KEYS_TOTAL,
     help: 'Contract keys',
@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+
+import {
+  BooleanType,
+  ByteVectorType,
+  ContainerNodeStructType,
+  ContainerType,
+  ListCompositeType,
+  UintNumberType,
+  VectorCompositeType,
+} from '@chainsafe/ssz';
+
+import { ChainSpec, MAINNET_PRESET } from 'common/config/chain-spec';
+
+import { computeEpochCommittees } from './attestation.committees';
+
+const FAR_FUTURE_EPOCH = Infinity;
+
+// https://github.com/ethereum/consensus-specs/tree/dev/presets/minimal
+const MINIMAL_PRESET: ChainSpec = {
+  ...MAINNET_PRESET,
+  SECONDS_PER_SLOT: 6,
+  SLOTS_PER_EPOCH: 8,
+  TARGET_COMMITTEE_SIZE: 4,
+  MAX_COMMITTEES_PER_SLOT: 4,
+  SHUFFLE_ROUND_COUNT: 10,
+  EPOCHS_PER_HISTORICAL_VECTOR: 64,
+  forkEpochs: {},
+};
+
+const MAINNET: ChainSpec = { ...MAINNET_PRESET, SECONDS_PER_SLOT: 12, forkEpochs: {} };
+
+const uint64 = new UintNumberType(8);
+const Validator = new ContainerNodeStructType({
+  pubkey: new ByteVectorType(48),
+  withdrawalCredentials: new ByteVectorType(32),
+  effectiveBalance: uint64,
+  slashed: new BooleanType(),
+  activationEligibilityEpoch: uint64,
+  activationEpoch: uint64,
+  exitEpoch: uint64,
+  withdrawableEpoch: uint64,
+});
+
+const sha256 = (...data: Uint8Array[]): Buffer => createHash('sha256').update(Buffer.concat(data)).digest();
+
+const uintToBytes = (value: number, length: number): Buffer => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(BigInt(value));
+  return bytes.subarray(0, length);
+};
+
+const stateType = (spec: ChainSpec) =>
+  new ContainerType({
+    validators: new ListCompositeType(Validator, 2 ** 40),
+    randaoMixes: new VectorCompositeType(new ByteVectorType(32), spec.EPOCHS_PER_HISTORICAL_VECTOR),
+  });
+
+type TestState = ReturnType<ReturnType<typeof stateType>['toView']>;
+
+const createState = (spec: ChainSpec, validatorsCount: number, epoch: number): TestState => {
+  const validators = Array.from({ length: validatorsCount }, (_, index) => ({
+    ...Validator.defaultValue(),
+    effectiveBalance: 32 * 10 ** 9,
+    activationEligibilityEpoch: 0,
+    // every 10th validator is activated after the epoch and every 7th is exited before it
+    activationEpoch: index % 10 == 0 ? epoch + 1 : 0,
+    exitEpoch: index % 7 == 0 ? epoch : FAR_FUTURE_EPOCH,
+    withdrawableEpoch: FAR_FUTURE_EPOCH,
+  }));
+  const randaoMixes = Array.from({ length: spec.EPOCHS_PER_HISTORICAL_VECTOR }, (_, index) => sha256(uintToBytes(index, 8)));
+  return stateType(spec).toView({ validators, randaoMixes });
+};
+
+// https://github.com/ethereum/consensus-specs/blob/dev/specs/phase0/beacon-chain.md#compute_shuffled_index
+const computeShuffledIndex = (index: number, indexCount: number, seed: Buffer, spec: ChainSpec): number => {
+  for (let round = 0; round < spec.SHUFFLE_ROUND_COUNT; round++) {
+    const pivot = Number(sha256(seed, uintToBytes(round, 1)).readBigUInt64LE(0) % BigInt(indexCount));
+    const flip = (pivot + indexCount - index) % indexCount;
+    const position = Math.max(index, flip);
+    const source = sha256(seed, uintToBytes(round, 1), uintToBytes(Math.floor(position / 256), 4));
+    const byte = source[Math.floor((position % 256) / 8)];
+    const bit = (byte >> position % 8) % 2;
+    index = bit ? flip : index;
+  }
+  return index;
+};
+
+// https://github.com/ethereum/consensus-specs/blob/dev/specs/phase0/beacon-chain.md#get_beacon_committee
+const getBeaconCommittee = (state: TestState, slot: number, index: number, spec: ChainSpec): number[] => {
+  const epoch = Math.floor(slot / spec.SLOTS_PER_EPOCH);
+  const indices = state.validators
+    .getAllReadonlyValues()
+    .map((v, i) => (v.activationEpoch <= epoch && epoch < v.exitEpoch ? i : undefined))
+    .filter((i): i is number => i != undefined);
+  const mix = state.randaoMixes.get(
+    (epoch + spec.EPOCHS_PER_HISTORICAL_VECTOR - spec.MIN_SEED_LOOKAHEAD - 1) % spec.EPOCHS_PER_HISTORICAL_VECTOR,
+  );
+  const seed = sha256(Uint8Array.from([1, 0, 0, 0]), uintToBytes(epoch, 8), mix);
+  const committeesPerSlot = Math.max(
+    1,
+    Math.min(spec.MAX_COMMITTEES_PER_SLOT, Math.floor(indices.length / spec.SLOTS_PER_EPOCH / spec.TARGET_COMMITTEE_SIZE)),
+  );
+  const committeeIndex = (slot % spec.SLOTS_PER_EPOCH) * committeesPerSlot + index;
+  const count = committeesPerSlot * spec.SLOTS_PER_EPOCH;
+  const start = Math.floor((indices.length * committeeIndex) / count);
+  const end = Math.floor((indices.length * (committeeIndex + 1)) / count);
+  const committee: number[] = [];
+  for (let i = start; i < end; i++) {
+    committee.push(indices[computeShuffledIndex(i, indices.length, seed, spec)]);
+  }
+  return committee;
+};
+
+describe('computeEpochCommittees', () => {
+  it.each([
+    ['minimal preset with several committees per slot', MINIMAL_PRESET, 300, 10, 4],
+    ['mainnet preset with one committee per slot', MAINNET, 1000, 100, 1],
+  ])('computes committees as the spec does for %s', async (_, spec, validatorsCount, epoch, committeesPerSlot) => {
+    const state = createState(spec, validatorsCount, epoch);
+    const committees = await computeEpochCommittees(state, epoch, spec);
+    expect(committees).toHaveLength(spec.SLOTS_PER_EPOCH * committeesPerSlot);
+    for (const committee of committees) {
+      expect(committee.validators).toEqual(getBeaconCommittee(state, committee.slot, committee.index, spec));
+    }
+    const members = committees.flatMap((c) => c.validators).sort((a, b) => a - b);
+    const active = Array.from({ length: validatorsCount }, (_, i) => i).filter((i) => i % 10 != 0 && i % 7 != 0);
+    expect(members).toEqual(active);
+  });
+
+  it('assigns committees to slots of the epoch', async () => {
+    const state = createState(MINIMAL_PRESET, 300, 10);
+    const committees = await computeEpochCommittees(state, 10, MINIMAL_PRESET);
+    expect(committees.map((c) => [c.slot, c.index])).toEqual(Array.from({ length: 8 * 4 }, (_, i) => [80 + Math.floor(i / 4), i % 4]));
+  });
+});
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+
+import { iterateNodesAtDepth } from '@chainsafe/persistent-merkle-tree';
+import { ListCompositeTreeView } from '@chainsafe/ssz/lib/view/listComposite';
+
+import { ChainSpec } from 'common/config';
+import { Epoch } from 'common/consensus-provider/types';
+import { unblock } from 'common/functions/unblock';
+
+// https://github.com/ethereum/consensus-specs/blob/dev/specs/phase0/beacon-chain.md#domain-types
+const DOMAIN_BEACON_ATTESTER = Uint8Array.from([1, 0, 0, 0]);
+
+export interface EpochCommittee {
+  slot: number;
+  index: number;
+  validators: number[];
+}
+
+// fields of the beacon state used to compute committees
+export interface CommitteesState {
+  validators: ListCompositeTreeView<any>;
+  randaoMixes: { get(index: number): Uint8Array };
+}
+
+const sha256 = (data: Uint8Array): Buffer => createHash('sha256').update(data).digest();
+
+/**
+ * Computes attestation committees of the epoch the same way as the beacon node does.
+ * The state must be not older than the epoch and not newer than the epoch after next
+ */
+export const computeEpochCommittees = async (state: CommitteesState, epoch: Epoch, spec: ChainSpec): Promise<EpochCommittee[]> => {
+  const slotsInEpoch = spec.SLOTS_PER_EPOCH;
+  const activeIndices = getActiveValidatorIndices(state, epoch);
+  await unblock();
+  const shuffling = await unshuffleList(activeIndices, getSeed(state, epoch, spec), spec.SHUFFLE_ROUND_COUNT);
+  const committeesPerSlot = Math.max(
+    1,
+    Math.min(spec.MAX_COMMITTEES_PER_SLOT, Math.floor(activeIndices.length / slotsInEpoch / spec.TARGET_COMMITTEE_SIZE)),
+  );
+  const committeesCount = committeesPerSlot * slotsInEpoch;
+  const committees: EpochCommittee[] = [];
+  for (let slotOffset = 0; slotOffset < slotsInEpoch; slotOffset++) {
+    for (let index = 0; index < committeesPerSlot; index++) {
+      const committeeOffset = slotOffset * committeesPerSlot + index;
+      const start = Math.floor((shuffling.length * committeeOffset) / committeesCount);
+      const end = Math.floor((shuffling.length * (committeeOffset + 1)) / committeesCount);
+      committees.push({ slot: epoch * slotsInEpoch + slotOffset, index, validators: Array.from(shuffling.subarray(start, end)) });
+    }
+  }
+  return committees;
+};
+
+const getActiveValidatorIndices = ({ validators }: CommitteesState, epoch: Epoch): Uint32Array => {
+  const iterator = iterateNodesAtDepth(
+    validators.type.tree_getChunksNode(validators.node),
+    validators.type.chunkDepth,
+    0,
+    validators.length,
+  );
+  const indices = new Uint32Array(validators.length);
+  let count = 0;
+  for (let index = 0; index < validators.length; index++) {
+    const validator = iterator.next().value.value;
+    if (validator.activationEpoch <= epoch && epoch < validator.exitEpoch) indices[count++] = index;
+  }
+  return indices.subarray(0, count);
+};
+
+const getSeed = ({ randaoMixes }: CommitteesState, epoch: Epoch, spec: ChainSpec): Buffer => {
+  const { EPOCHS_PER_HISTORICAL_VECTOR, MIN_SEED_LOOKAHEAD } = spec;
+  const mix = randaoMixes.get((epoch + EPOCHS_PER_HISTORICAL_VECTOR - MIN_SEED_LOOKAHEAD - 1) % EPOCHS_PER_HISTORICAL_VECTOR);
+  const epochBytes = Buffer.alloc(8);
+  epochBytes.writeBigUInt64LE(BigInt(epoch));
+  return sha256(Buffer.concat([DOMAIN_BEACON_ATTESTER, epochBytes, mix]));
+};
+
+/**
+ * Swap-or-not shuffle of the whole list in the reverse direction, which is the same as
+ * `compute_shuffled_index` from the spec applied to every position, but much faster
+ * https://github.com/ChainSafe/lodestar/blob/unstable/packages/state-transition/src/util/shuffle.ts
+ */
+const unshuffleList = async (input: Uint32Array, seed: Buffer, roundsCount: number): Promise<Uint32Array> => {
+  const list = input.slice();
+  const listSize = list.length;
+  if (listSize <= 1) return list;
+  // seed (32 bytes) + round (1 byte) + position window (4 bytes)
+  const buf = Buffer.alloc(37);
+  seed.copy(buf, 0);
+  const swapHalf = (from: number, to: number, mirror: number) => {
+    let j = to;
+    buf.writeUInt32LE(j >> 8, 33);
+    let source = sha256(buf);
+    let byte = source[(j & 0xff) >> 3];
+    for (let i = from; i < mirror; i++, j--) {
+      if ((j & 0xff) == 0xff) {
+        buf.writeUInt32LE(j >> 8, 33);
+        source = sha256(buf);
+      }
+      if ((j & 0x7) == 0x7) byte = source[(j & 0xff) >> 3];
+      if ((byte >> (j & 0x7)) & 0x1) [list[i], list[j]] = [list[j], list[i]];
+    }
+  };
+  for (let round = roundsCount - 1; round >= 0; round--) {
+    buf[32] = round;
+    const pivot = Number(sha256(buf.subarray(0, 33)).readBigUInt64LE(0) % BigInt(listSize));
+    // mirrors of the list around the pivot and around the end of the list
+    swapHalf(0, pivot, (pivot + 1) >> 1);
+    swapHalf(pivot + 1, listSize - 1, (pivot + listSize + 1) >> 1);
+    // shuffling of large validators set takes a while
+    await unblock();
+  }
+  return list;
+};
@@ -0,0 +1,49 @@
+import { ChainSpec, MAINNET_PRESET } from 'common/config/chain-spec';
+
+import { getInactivityPenalty, getInactivityScore } from './attestation.constants';
+
+const spec: ChainSpec = { ...MAINNET_PRESET, SECONDS_PER_SLOT: 12, forkEpochs: {} };
+
+const ETH = 10n ** 9n;
+
+describe('getInactivityScore', () => {
+  it.each([
+    // score, timely target, inactivity leak, expected
+    [0, false, true, 4],
+    [10, false, true, 14],
+    [10, true, true, 9],
+    [0, true, true, 0],
+    [10, false, false, 0],
+    [40, false, false, 28],
+    [40, true, false, 23],
+    [0, true, false, 0],
+  ])('updates score %i with timely target [%s] and leak [%s] to %i', (score, timelyTarget, inactivityLeak, expected) => {
+    expect(getInactivityScore(score, timelyTarget, inactivityLeak, spec)).toBe(expected);
+  });
+
+  it('grows during the leak and recovers after it', () => {
+    let score = 0;
+    for (let epoch = 0; epoch < 5; epoch++) {
+      score = getInactivityScore(score, false, true, spec);
+    }
+    expect(score).toBe(20);
+    score = getInactivityScore(score, true, false, spec);
+    expect(score).toBe(3);
+    score = getInactivityScore(score, true, false, spec);
+    expect(score).toBe(0);
+  });
+});
+
+describe('getInactivityPenalty', () => {
+  it.each([
+    // effective balance, score, expected
+    [32n * ETH, 0, 0],
+    [32n * ETH, 4, 1907],
+    [32n * ETH, 100, 47683],
+    [2048n * ETH, 4, 122070],
+    // the numerator exceeds max safe integer
+    [2048n * ETH, 10000, 305175781],
+  ])('of validator with effective balance %s and score %i is %i', (effectiveBalance, score, expected) => {
+    expect(getInactivityPenalty(effectiveBalance, score, spec)).toBe(expected);
+  });
+});
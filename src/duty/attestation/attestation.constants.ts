@@ -1,3 +1,5 @@
+import { ChainSpec } from 'common/config';
+
 // from https://eth2book.info/bellatrix/part2/incentives/rewards/
 export const TIMELY_SOURCE_WEIGHT = 14; // Ws
 export const TIMELY_TARGET_WEIGHT = 26; // Wt
@@ -59,3 +61,16 @@ export const getPenalties = (flags: {
     head: 0,
   };
 };
+
+// Inactivity score after `process_inactivity_updates`, which goes before rewards processing on epoch transition
+export const getInactivityScore = (score: number, timelyTarget: boolean, inactivityLeak: boolean, spec: ChainSpec): number => {
+  let next = timelyTarget ? score - Math.min(1, score) : score + spec.INACTIVITY_SCORE_BIAS;
+  if (!inactivityLeak) next -= Math.min(spec.INACTIVITY_SCORE_RECOVERY_RATE, next);
+  return next;
+};
+
+// https://github.com/ethereum/consensus-specs/blob/dev/specs/bellatrix/beacon-chain.md#modified-get_inactivity_penalty_deltas
+export const getInactivityPenalty = (effectiveBalance: bigint, inactivityScore: number, spec: ChainSpec): number => {
+  const denominator = BigInt(spec.INACTIVITY_SCORE_BIAS) * BigInt(spec.INACTIVITY_PENALTY_QUOTIENT_BELLATRIX);
+  return Number((effectiveBalance * BigInt(inactivityScore)) / denominator);
+};
@@ -3,12 +3,13 @@ import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
 import { Inject, Injectable, LoggerService } from '@nestjs/common';
 
 import { ConfigService } from 'common/config';
+import { ValStatus } from 'common/consensus-provider';
 import { Epoch } from 'common/consensus-provider/types';
 import { unblock } from 'common/functions/unblock';
 import { PrometheusService } from 'common/prometheus';
-import { SummaryService } from 'duty/summary';
+import { SummaryService, ValidatorDutySummary } from 'duty/summary';
 
-import { getPenalties, getRewards } from './attestation.constants';
+import { getInactivityPenalty, getInactivityScore, getPenalties, getRewards } from './attestation.constants';
 
 @Injectable()
 export class AttestationRewards {
@@ -21,6 +22,11 @@ export class AttestationRewards {
 
   public async calculate(epoch: Epoch) {
     const epochMeta = this.summary.epoch(epoch).getMeta();
+    const spec = this.config.getChainSpec();
+    // During inactivity leak attestations aren't rewarded, but penalties are still applied
+    const inactivityLeak = epochMeta.state.inactivity_leak;
+    const rewardsOf = (flags: { source: boolean; target: boolean; head: boolean }) =>
+      getRewards(inactivityLeak ? { source: false, target: false, head: false } : flags);
     // Attestation reward multipliers
     const sourceParticipation = Number.parseFloat(
       FixedNumber.from(epochMeta.attestation.participation.source)
@@ -38,11 +44,26 @@ export class AttestationRewards {
         .toString(),
     );
     // Perfect attestation (with multipliers). Need for calculating missed reward
-    const perfect = getRewards({ source: true, target: true, head: true });
-    const perfectAttestationRewards =
-      Math.trunc(perfect.source * epochMeta.state.base_reward * 32 * sourceParticipation) +
-      Math.trunc(perfect.target * epochMeta.state.base_reward * 32 * targetParticipation) +
-      Math.trunc(perfect.head * epochMeta.state.base_reward * 32 * headParticipation);
+    // It depends on effective balance increments, which are up to 2048 for compounding (0x02) validators
+    const perfect = rewardsOf({ source: true, target: true, head: true });
+    const perfectAttestationRewards = (increments: number) =>
+      Math.trunc(perfect.source * epochMeta.state.base_reward * increments * sourceParticipation) +
+      Math.trunc(perfect.target * epochMeta.state.base_reward * increments * targetParticipation) +
+      Math.trunc(perfect.head * epochMeta.state.base_reward * increments * headParticipation);
+    // Slashed validator is penalized as if it missed source and target while `previous_epoch + 1 < withdrawable_epoch`,
+    // even after exit, when it isn't in committees. Slashed validator has active or exited status in the state before
+    // transition exactly while `current_epoch < withdrawable_epoch`
+    const missed = getPenalties({ source: false, target: false, head: false });
+    const slashingOngoingPenalty = (v: ValidatorDutySummary): number | undefined => {
+      if (!v.val_slashed || ![ValStatus.ActiveSlashed, ValStatus.ExitedSlashed].includes(v.val_status)) return undefined;
+      const increments = Number(v.val_effective_balance / BigInt(10 ** 9));
+      const inactivityScore = getInactivityScore(v.val_inactivity_score ?? 0, false, inactivityLeak, spec);
+      return (
+        Math.trunc(missed.source * epochMeta.state.base_reward * increments) +
+        Math.trunc(missed.target * epochMeta.state.base_reward * increments) +
+        getInactivityPenalty(v.val_effective_balance, inactivityScore, spec)
+      );
+    };
     const maxBatchSize = 1000;
     let index = 0;
     for (const v of this.summary.epoch(epoch).values()) {
@@ -60,6 +81,7 @@ export class AttestationRewards {
           att_valid_source: undefined,
           att_valid_target: undefined,
           att_valid_head: undefined,
+          slashing_ongoing_penalty: slashingOngoingPenalty(v),
         });
         continue;
       }
@@ -76,7 +98,7 @@ export class AttestationRewards {
         pv.att_valid_target = undefined;
         pv.att_valid_head = undefined;
       }
-      const rewards = getRewards({ source: pv.att_valid_source, target: pv.att_valid_target, head: pv.att_valid_head });
+      const rewards = rewardsOf({ source: pv.att_valid_source, target: pv.att_valid_target, head: pv.att_valid_head });
       const penalties = getPenalties({ source: pv.att_valid_source, target: pv.att_valid_target, head: pv.att_valid_head });
       const rewardSource = Math.trunc(rewards.source * epochMeta.state.base_reward * increments * sourceParticipation);
       const rewardTarget = Math.trunc(rewards.target * epochMeta.state.base_reward * increments * targetParticipation);
@@ -85,8 +107,11 @@ export class AttestationRewards {
       const penaltyTarget = Math.trunc(penalties.target * epochMeta.state.base_reward * increments);
       const penaltyHead = Math.trunc(penalties.head * epochMeta.state.base_reward * increments);
       att_earned_reward = rewardSource + rewardTarget + rewardHead;
-      att_missed_reward = perfectAttestationRewards - att_earned_reward;
-      att_penalty = penaltySource + penaltyTarget + penaltyHead;
+      att_missed_reward = perfectAttestationRewards(increments) - att_earned_reward;
+      // Inactivity penalty is non-zero only during the leak or while the score recovers after it
+      const inactivityScore = getInactivityScore(v.val_inactivity_score ?? 0, !!pv.att_valid_target, inactivityLeak, spec);
+      const att_inactivity_penalty = pv.att_valid_target ? 0 : getInactivityPenalty(v.val_effective_balance, inactivityScore, spec);
+      att_penalty = penaltySource + penaltyTarget + penaltyHead + att_inactivity_penalty;
       // And save it to summary of current epoch
       this.summary.epoch(epoch).set({
         epoch,
@@ -99,6 +124,8 @@ export class AttestationRewards {
         att_earned_reward,
         att_missed_reward,
         att_penalty,
+        att_inactivity_penalty,
+        slashing_ongoing_penalty: slashingOngoingPenalty(v),
       });
       index++;
       if (index % maxBatchSize == 0) {
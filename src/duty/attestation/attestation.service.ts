@@ -16,6 +16,7 @@ import { unblock } from 'common/functions/unblock';
 import { PrometheusService, TrackTask } from 'common/prometheus';
 import { SummaryService } from 'duty/summary';
 
+import { CommitteesState, computeEpochCommittees } from './attestation.committees';
 import { getFlags } from './attestation.constants';
 
 interface SlotAttestation {
@@ -27,14 +28,13 @@ interface SlotAttestation {
   source_root: string;
   source_epoch: Epoch;
   slot: number;
-  committee_index: number;
+  // aggregation bits of committees are concatenated in this order
+  committee_indexes: number[];
 }
 
 @Injectable()
 export class AttestationService {
   private processedEpoch: number;
-  private readonly slotsInEpoch: number;
-  private readonly dencunEpoch: Epoch;
   private readonly savedCanonSlotsAttProperties: Map<number, string>;
 
   public constructor(
@@ -44,11 +44,22 @@ export class AttestationService {
     protected readonly clClient: ConsensusProviderService,
     protected readonly summary: SummaryService,
   ) {
-    this.slotsInEpoch = this.config.get('FETCH_INTERVAL_SLOTS');
-    this.dencunEpoch = this.config.get('DENCUN_FORK_EPOCH');
     this.savedCanonSlotsAttProperties = new Map<number, string>();
   }
 
+  // chain spec is loaded after construction, so these values are read on every use
+  private get slotsInEpoch(): number {
+    return this.config.get('FETCH_INTERVAL_SLOTS');
+  }
+
+  private get dencunEpoch(): Epoch {
+    return this.config.get('DENCUN_FORK_EPOCH');
+  }
+
+  private get electraEpoch(): Epoch {
+    return this.config.get('ELECTRA_FORK_EPOCH');
+  }
+
   @TrackTask('check-attestation-duties')
   public async check(epoch: Epoch, stateSlot: Slot): Promise<void> {
     this.processedEpoch = epoch;
@@ -59,12 +70,18 @@ export class AttestationService {
     const maxBatchSize = 5;
     let index = 0;
     for (const attestation of attestations) {
-      // Each attestation corresponds to committee. Committee may have several aggregate attestations
-      const committee = committees.get(`${attestation.committee_index}_${attestation.slot}`);
-      if (!committee) {
-        continue;
+      // Before Electra each attestation corresponds to committee. Committee may have several aggregate attestations.
+      // From Electra (EIP-7549) aggregate attestation may include several committees of the slot
+      let committeeOffset = 0;
+      for (const committeeIndex of attestation.committee_indexes) {
+        const committee = committees.get(`${committeeIndex}_${attestation.slot}`);
+        // bits of the next committees can't be located without the size of this one
+        if (!committee) {
+          break;
+        }
+        await this.processAttestation(epoch, attestation, committee, committeeOffset);
+        committeeOffset += committee.length;
       }
-      await this.processAttestation(epoch, attestation, committee);
       // Long loop (2048 committees will be checked by ~7k attestations).
       // We need to unblock event loop immediately after each iteration
       // It makes this cycle slower but safer (but since it is executed async, impact will be minimal)
@@ -76,7 +93,10 @@ export class AttestationService {
     }
   }
 
-  protected async processAttestation(epoch: Epoch, attestation: SlotAttestation, committee: number[]) {
+  /**
+   * @param committeeOffset - position of the committee bits in the attestation aggregation bits
+   */
+  protected async processAttestation(epoch: Epoch, attestation: SlotAttestation, committee: number[], committeeOffset = 0) {
     const attestationFlags = { source: [], target: [], head: [] };
     const [canonHead, canonTarget, canonSource] = await allSettled([
       this.getCanonSlotRoot(attestation.slot),
@@ -90,7 +110,7 @@ export class AttestationService {
     const isDencunFork = epoch >= this.dencunEpoch;
     const flags = getFlags(attIncDelay, attValidSource, attValidTarget, attValidHead, isDencunFork);
     for (const [valCommIndex, validatorIndex] of committee.entries()) {
-      const attHappened = attestation.bits.get(valCommIndex);
+      const attHappened = attestation.bits.get(committeeOffset + valCommIndex);
       if (!attHappened) {
         continue;
       }
@@ -135,6 +155,8 @@ export class AttestationService {
   protected async getProcessedAttestations() {
     this.logger.log(`Processing attestations from blocks info`);
     const bitsMap = new Map<string, BitArray>();
+    const committeeIndexesMap = new Map<string, number[]>();
+    const CommitteeIndexesBits = new BitVectorType(this.config.getChainSpec().MAX_COMMITTEES_PER_SLOT);
     const attestations: SlotAttestation[] = [];
     const allMissedSlots: number[] = [];
     // Check all slots from previous epoch start to current epoch last slot
@@ -146,6 +168,7 @@ export class AttestationService {
         allMissedSlots.push(slotToCheck);
         continue;
       }
+      const isElectraFork = Math.trunc(Number(block.message.slot) / this.slotsInEpoch) >= this.electraEpoch;
       for (const att of block.message.body.attestations) {
         let bits = bitsMap.get(att.aggregation_bits);
         if (!bits) {
@@ -154,6 +177,14 @@ export class AttestationService {
           bits = CommitteeBits.deserialize(bytesArray);
           bitsMap.set(att.aggregation_bits, bits);
         }
+        let committeeIndexes = [Number(att.data.index)];
+        if (isElectraFork) {
+          committeeIndexes = committeeIndexesMap.get(att.committee_bits);
+          if (!committeeIndexes) {
+            committeeIndexes = CommitteeIndexesBits.deserialize(fromHexString(att.committee_bits)).getTrueBitIndexes();
+            committeeIndexesMap.set(att.committee_bits, committeeIndexes);
+          }
+        }
         attestations.push({
           included_in_block: Number(block.message.slot),
           bits: bits,
@@ -163,7 +194,7 @@ export class AttestationService {
           source_root: att.data.source.root,
           source_epoch: Number(att.data.source.epoch),
           slot: Number(att.data.slot),
-          committee_index: Number(att.data.index),
+          committee_indexes: committeeIndexes,
         });
       }
     }
@@ -173,6 +204,34 @@ export class AttestationService {
 
   @TrackTask('get-attestation-committees')
   protected async getAttestationCommittees(stateSlot: Slot): Promise<Map<string, number[]>> {
+    if (this.config.get('COMMITTEES_FROM_STATE_ENABLED')) {
+      try {
+        return await this.computeAttestationCommittees(stateSlot);
+      } catch (e) {
+        this.logger.warn(`Unable to compute attestation committees from state. Committees will be requested from CL API. ${e.message}`);
+      }
+    }
+    return await this.fetchAttestationCommittees(stateSlot);
+  }
+
+  /**
+   * Computes committees of the processed and previous epochs from the state, which is downloaded for state duties anyway
+   */
+  protected async computeAttestationCommittees(stateSlot: Slot): Promise<Map<string, number[]>> {
+    const committees = new Map<string, number[]>();
+    const state = await this.clClient.getState(stateSlot);
+    for (const epoch of [this.processedEpoch - 1, this.processedEpoch]) {
+      for (const committee of await computeEpochCommittees(state as unknown as CommitteesState, epoch, this.config.getChainSpec())) {
+        // validator doesn't attests by default
+        committee.validators.forEach((index) => this.summary.epoch(epoch).set({ epoch: epoch, val_id: index, att_happened: false }));
+        committees.set(`${committee.index}_${committee.slot}`, committee.validators);
+      }
+      await unblock();
+    }
+    return committees;
+  }
+
+  protected async fetchAttestationCommittees(stateSlot: Slot): Promise<Map<string, number[]>> {
     const committees = new Map<string, number[]>();
     const [prevStream, currStream] = await allSettled([
       this.clClient.getAttestationCommitteesInfo(stateSlot, this.processedEpoch - 1),
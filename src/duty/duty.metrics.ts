@@ -33,6 +33,21 @@ export class DutyMetrics {
   @TrackTask('calc-all-duties-metrics')
   public async calculate(epoch: Epoch, possibleHighRewardValidators: string[]): Promise<any> {
     this.logger.log('Calculating duties metrics of user validators');
+    await this.calculateMetrics(epoch, possibleHighRewardValidators);
+    await this.storage.updateEpochProcessing({ epoch, is_calculated: true });
+  }
+
+  /**
+   * Calculates metrics of the epoch processed by another instance. Processing state isn't changed.
+   * High reward validators are known only while processing the epoch, so these metrics are not calculated
+   */
+  @TrackTask('calc-stored-duties-metrics')
+  public async calculateStored(epoch: Epoch): Promise<any> {
+    this.logger.log('Calculating duties metrics of user validators from stored data');
+    await this.calculateMetrics(epoch, []);
+  }
+
+  private async calculateMetrics(epoch: Epoch, possibleHighRewardValidators: string[]): Promise<void> {
     await allSettled([
       this.withPossibleHighReward(epoch, possibleHighRewardValidators),
       this.stateMetrics.calculate(epoch),
@@ -40,7 +55,6 @@ export class DutyMetrics {
     ]);
     // we must calculate summary metrics after all duties to avoid errors in processing
     await this.summaryMetrics.calculate(epoch);
-    await this.storage.updateEpochProcessing({ epoch, is_calculated: true });
   }
 
   private async withPossibleHighReward(epoch: Epoch, possibleHighRewardValidators: string[]): Promise<void> {
@@ -7,6 +7,7 @@ import { ClickhouseModule } from 'storage/clickhouse';
 import { AttestationModule } from './attestation';
 import { DutyMetrics } from './duty.metrics';
 import { DutyRewards } from './duty.rewards';
+import { DutyRewardsVerification } from './duty.rewards-verification';
 import { DutyService } from './duty.service';
 import { ProposeModule } from './propose';
 import { StateModule } from './state';
@@ -26,7 +27,7 @@ import { WithdrawalsModule } from './withdrawal';
     BlockCacheModule,
     ClickhouseModule,
   ],
-  providers: [DutyService, DutyMetrics, DutyRewards],
+  providers: [DutyService, DutyMetrics, DutyRewards, DutyRewardsVerification],
   exports: [DutyService, DutyMetrics],
 })
 export class DutyModule {}
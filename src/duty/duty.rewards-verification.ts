@@ -0,0 +1,107 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { Epoch } from 'common/consensus-provider/types';
+import { allSettled } from 'common/functions/allSettled';
+import { unblock } from 'common/functions/unblock';
+import { PrometheusService, TrackTask } from 'common/prometheus';
+
+import { SummaryService, ValidatorDutySummary } from './summary';
+
+// Count of validators in one rewards request, big requests are rejected by nodes
+const VALIDATORS_PER_REQUEST = 10000;
+
+const sumRewards = (values: string[]): { reward: number; penalty: number } => {
+  let reward = 0;
+  let penalty = 0;
+  for (const value of values) {
+    const amount = Number(value ?? 0);
+    if (amount > 0) reward += amount;
+    else penalty -= amount;
+  }
+  return { reward, penalty };
+};
+
+/**
+ * Requests rewards of user validators from CL API to verify calculated ones
+ */
+@Injectable()
+export class DutyRewardsVerification {
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly summary: SummaryService,
+  ) {}
+
+  @TrackTask('verify-duties-rewards')
+  public async verify(epoch: Epoch) {
+    this.logger.log('Verify calculated rewards by CL API');
+    const userValidators = [...this.summary.epoch(epoch).values()].filter((v) => v.val_nos_id != undefined);
+    // Verification is optional, so errors don't stop epoch processing
+    const verified = (name: string, task: Promise<void>) =>
+      task.catch((e) => this.logger.warn(`Unable to verify ${name} rewards by CL API. ${e.message}`));
+    await allSettled([
+      verified('attestation', this.verifyAttestations(epoch, userValidators)),
+      verified('sync', this.verifySync(epoch, userValidators)),
+      verified('propose', this.verifyProposes(epoch, userValidators)),
+    ]);
+  }
+
+  protected async verifyAttestations(epoch: Epoch, userValidators: ValidatorDutySummary[]) {
+    // Attestation rewards are calculated for attestations of the previous epoch
+    const validators = userValidators.filter((v) => v.att_earned_reward != undefined).map((v) => String(v.val_id));
+    for (let i = 0; i < validators.length; i += VALIDATORS_PER_REQUEST) {
+      const { total_rewards } = await this.clClient.getAttestationRewards(epoch - 1, validators.slice(i, i + VALIDATORS_PER_REQUEST));
+      for (const r of total_rewards) {
+        const { reward, penalty } = sumRewards([r.head, r.target, r.source, r.inclusion_delay, r.inactivity]);
+        this.summary.epoch(epoch).set({
+          epoch,
+          val_id: Number(r.validator_index),
+          att_api_reward: reward,
+          att_api_penalty: penalty,
+          ...(this.config.get('REWARDS_API_REPLACE_ENABLED') ? { att_earned_reward: reward, att_penalty: penalty } : {}),
+        });
+      }
+      await unblock();
+    }
+  }
+
+  protected async verifySync(epoch: Epoch, userValidators: ValidatorDutySummary[]) {
+    const validators = userValidators.filter((v) => v.is_sync).map((v) => String(v.val_id));
+    if (!validators.length) return;
+    const rewards = new Map<string, string[]>(validators.map((v) => [v, []]));
+    for (const block of this.summary.epoch(epoch).getMeta().sync.blocks_to_sync) {
+      const blockRewards = await this.clClient.getSyncCommitteeRewards(block, validators);
+      // validator can be in sync committee several times, so rewards of all its positions are summed up
+      for (const r of blockRewards || []) rewards.get(String(r.validator_index))?.push(r.reward);
+    }
+    for (const [val_id, values] of rewards) {
+      const { reward, penalty } = sumRewards(values);
+      this.summary.epoch(epoch).set({
+        epoch,
+        val_id: Number(val_id),
+        sync_api_reward: reward,
+        sync_api_penalty: penalty,
+        ...(this.config.get('REWARDS_API_REPLACE_ENABLED') ? { sync_earned_reward: reward, sync_penalty: penalty } : {}),
+      });
+    }
+  }
+
+  protected async verifyProposes(epoch: Epoch, userValidators: ValidatorDutySummary[]) {
+    for (const v of userValidators.filter((v) => v.is_proposer && v.block_proposed)) {
+      const blockRewards = await this.clClient.getBlockRewards(v.block_to_propose);
+      if (!blockRewards) continue;
+      const reward = BigInt(blockRewards.total);
+      this.summary.epoch(epoch).set({
+        epoch,
+        val_id: v.val_id,
+        propose_api_reward: reward,
+        ...(this.config.get('REWARDS_API_REPLACE_ENABLED') ? { propose_earned_reward: reward } : {}),
+      });
+    }
+  }
+}
@@ -7,6 +7,7 @@ import { PrometheusService, TrackTask } from 'common/prometheus';
 
 import { Epoch } from '../common/consensus-provider/types';
 import { AttestationRewards } from './attestation';
+import { DutyRewardsVerification } from './duty.rewards-verification';
 import { ProposeRewards } from './propose';
 import { SyncRewards } from './sync';
 
@@ -20,13 +21,13 @@ export class DutyRewards {
     protected readonly attestationRewards: AttestationRewards,
     protected readonly syncRewards: SyncRewards,
     protected readonly proposerRewards: ProposeRewards,
+    protected readonly verification: DutyRewardsVerification,
   ) {}
 
   @TrackTask('calc-all-duties-rewards')
   public async calculate(epoch: Epoch) {
-    // todo: 'Slashed' case
-    // todo: 'Inactivity leak' case
     this.logger.log('Calculate rewards for all duties');
     await allSettled([this.attestationRewards.calculate(epoch), this.syncRewards.calculate(epoch), this.proposerRewards.calculate(epoch)]);
+    if (this.config.get('REWARDS_API_VERIFICATION_ENABLED')) await this.verification.verify(epoch);
   }
 }
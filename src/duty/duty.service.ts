@@ -10,6 +10,7 @@ import { range } from 'common/functions/range';
 import { unblock } from 'common/functions/unblock';
 import { PrometheusService, TrackTask } from 'common/prometheus';
 import { ClickhouseService } from 'storage';
+import { DataVersion, EpochProcessingState } from 'storage/clickhouse';
 
 import { AttestationService } from './attestation';
 import { TIMELY_HEAD_WEIGHT, TIMELY_SOURCE_WEIGHT, TIMELY_TARGET_WEIGHT } from './attestation/attestation.constants';
@@ -41,8 +42,21 @@ export class DutyService {
     protected readonly withdrawals: WithdrawalsService,
   ) {}
 
-  public async checkAndWrite({ epoch, stateSlot }: { epoch: Epoch; stateSlot: Slot }): Promise<string[]> {
+  public async checkAndWrite({
+    epoch,
+    stateSlot,
+    dataVersion = DataVersion.Finalized,
+    prefetchNext = false,
+  }: {
+    epoch: Epoch;
+    stateSlot: Slot;
+    dataVersion?: DataVersion;
+    // the next epoch can be processed right after this one
+    prefetchNext?: boolean;
+  }): Promise<string[]> {
     const workingMode = this.config.get('WORKING_MODE');
+    // Roots are fetched before processing to be able to find out later whether the processed chain was reorganized
+    const roots = await this.getEpochRoots(epoch, stateSlot);
     const [, , possibleHighRewardVals] = await allSettled([
       // Prefetch will be done before main checks because duty by state requests are heavy
       // and while we wait for their responses we fetch blocks and headers.
@@ -55,12 +69,28 @@ export class DutyService {
       // it's nice to have but not critical
       workingMode == WorkingMode.Finalized ? this.getPossibleHighRewardValidators().catch(() => []) : [],
     ]);
-    await allSettled([this.writeEpochMeta(epoch), this.writeSummary(epoch)]);
+    // State of this epoch isn't needed anymore, so the next one can be downloaded while this epoch is written
+    if (prefetchNext) this.prefetchNext(epoch + 1);
+    await allSettled([this.writeEpochMeta(epoch, dataVersion), this.writeSummary(epoch, dataVersion)]);
     this.summary.clear();
-    await this.storage.updateEpochProcessing({ epoch, is_stored: true });
+    await this.storage.updateEpochProcessing({ epoch, is_stored: true, data_version: dataVersion, ...roots });
     return possibleHighRewardVals;
   }
 
+  protected async getEpochRoots(epoch: Epoch, stateSlot: Slot): Promise<Omit<EpochProcessingState, 'epoch'>> {
+    const [stateHeader, proposerDependentRoot, attesterDependentRoot] = await allSettled([
+      this.clClient.getBlockHeader(stateSlot),
+      this.clClient.getDutyDependentRoot(epoch),
+      this.clClient.getDutyDependentRoot(epoch - 1),
+    ]);
+    return {
+      state_slot: stateSlot,
+      state_slot_root: (<BlockHeaderResponse>stateHeader)?.root,
+      proposer_dependent_root: proposerDependentRoot,
+      attester_dependent_root: attesterDependentRoot,
+    };
+  }
+
   @TrackTask('check-all-duties')
   protected async checkAll(epoch: Epoch, stateSlot: Slot): Promise<any> {
     this.summary.clear();
@@ -71,13 +101,35 @@ export class DutyService {
       this.sync.check(epoch, stateSlot),
       this.propose.check(epoch),
       this.withdrawals.check(epoch),
-    ]);
+    ]).finally(() => this.clClient.releaseState(stateSlot));
     // must be done after all duties check
     await this.fillCurrentEpochMetadata(epoch);
     // calculate rewards after check all duties
     await this.rewards.calculate(epoch);
   }
 
+  /**
+   * Requests state, committees and blocks of the epoch in background.
+   * Summary of the epoch is held only while it's processed, so the prefetched state is the only extra data held in memory.
+   * It isn't requested if memory usage exceeds `PIPELINE_MAX_MEMORY_MB`
+   */
+  protected prefetchNext(epoch: Epoch): void {
+    const { heapUsed, external } = process.memoryUsage();
+    const usedMb = Math.round((heapUsed + external) / 1024 / 1024);
+    const maxMb = this.config.get('PIPELINE_MAX_MEMORY_MB');
+    if (maxMb && usedMb > maxMb) {
+      this.logger.warn(`Memory usage [${usedMb} MB] exceeds [${maxMb} MB]. Data of the next epoch [${epoch}] is not prefetched`);
+      return;
+    }
+    this.logger.log(`Prefetching data of the next epoch [${epoch}]`);
+    const slotsInEpoch = this.config.get('FETCH_INTERVAL_SLOTS');
+    this.clClient
+      .getBeaconBlockHeaderOrPreviousIfMissed(epoch * slotsInEpoch + slotsInEpoch - 1)
+      .then((header) => this.clClient.prefetchState(Number(header.header.message.slot), epoch))
+      .catch(() => undefined);
+    this.prefetch(epoch).catch(() => undefined);
+  }
+
   @TrackTask('prefetch-slots')
   protected async prefetch(epoch: Epoch): Promise<any> {
     this.blockCacheService.purgeOld(epoch);
@@ -113,7 +165,10 @@ export class DutyService {
   @TrackTask('fill-att-sync-epoch-metadata')
   protected async fillAttestationAndSyncMetadata(epoch: Epoch): Promise<any> {
     const meta = this.summary.epoch(epoch).getMeta();
-    meta.sync.per_block_reward = Number(syncReward(meta.state.active_validators_total_increments, meta.state.base_reward));
+    const { SLOTS_PER_EPOCH, SYNC_COMMITTEE_SIZE } = this.config.getChainSpec();
+    meta.sync.per_block_reward = Number(
+      syncReward(meta.state.active_validators_total_increments, meta.state.base_reward, SLOTS_PER_EPOCH, SYNC_COMMITTEE_SIZE),
+    );
     const perSyncProposerReward = Math.floor((meta.sync.per_block_reward * PROPOSER_WEIGHT) / (WEIGHT_DENOMINATOR - PROPOSER_WEIGHT));
     const maxBatchSize = 1000;
     let index = 0;
@@ -182,14 +237,18 @@ export class DutyService {
     this.summary.epoch(epoch).setMeta(meta);
   }
 
-  protected async writeSummary(epoch: Epoch): Promise<any> {
+  protected async writeSummary(epoch: Epoch, dataVersion: DataVersion = DataVersion.Finalized): Promise<any> {
     this.logger.log('Writing summary of duties into DB');
-    await this.storage.writeSummary(this.summary.epoch(epoch).values());
+    await this.storage.writeSummary(this.summary.epoch(epoch).values(), dataVersion);
   }
 
-  protected async writeEpochMeta(epoch: Epoch): Promise<any> {
+  protected async writeEpochMeta(epoch: Epoch, dataVersion: DataVersion = DataVersion.Finalized): Promise<any> {
     this.logger.log('Writing epoch metadata into DB');
     const meta = this.summary.epoch(epoch).getMeta();
-    await this.storage.writeEpochMeta(epoch, meta);
+    await allSettled([
+      this.storage.writeEpochMeta(epoch, meta, dataVersion),
+      this.storage.writeExecutionRequests(epoch, meta.execution_requests, dataVersion),
+      this.storage.writePendingQueues(epoch, meta.pending_queues.user_items, dataVersion),
+    ]);
   }
 }
@@ -6,6 +6,7 @@ import { ConfigService } from 'common/config';
 import { Epoch } from 'common/consensus-provider/types';
 import { allSettled } from 'common/functions/allSettled';
 import { Owner, PrometheusService, PrometheusValStatus, TrackTask, setUserOperatorsMetric } from 'common/prometheus';
+import { PendingQueue } from 'duty/summary';
 import { ClickhouseService } from 'storage/clickhouse';
 import { RegistryService, RegistrySourceOperator } from 'validators-registry';
 import { LidoSourceService } from 'validators-registry/lido-source';
@@ -41,6 +42,7 @@ export class StateMetrics {
       this.totalBalance24hDifference(),
       this.operatorBalance24hDifference(),
       this.contract(),
+      this.pendingQueues(),
     ]);
   }
 
@@ -209,11 +211,13 @@ export class StateMetrics {
   private async avgDeltas() {
     const data = await this.storage.getAvgValidatorBalanceDelta(this.processedEpoch);
     setUserOperatorsMetric(this.prometheus.avgValidatorBalanceDelta, data, this.operators);
+    setUserOperatorsMetric(this.prometheus.avgValidatorBalanceDeltaPer32Eth, data, this.operators, {}, (d) => d.amount_per_32_eth);
   }
 
   private async minDeltas() {
     const data = await this.storage.getValidatorQuantile0001BalanceDeltas(this.processedEpoch);
     setUserOperatorsMetric(this.prometheus.validatorQuantile001BalanceDelta, data, this.operators);
+    setUserOperatorsMetric(this.prometheus.validatorQuantile001BalanceDeltaPer32Eth, data, this.operators, {}, (d) => d.amount_per_32_eth);
   }
 
   private async negativeValidatorsCount() {
@@ -244,4 +248,25 @@ export class StateMetrics {
     const bufferedEther = (await this.registryService.source.contract.getBufferedEther()).div(GWEI_WEI_RATIO).div(ETH_GWEI_RATIO);
     this.prometheus.bufferedEther.set(bufferedEther.toNumber());
   }
+
+  private async pendingQueues() {
+    const [meta, data] = await allSettled([
+      this.storage.getEpochMetadata(this.processedEpoch),
+      this.storage.getUserNodeOperatorsPendingQueuesStats(this.processedEpoch),
+    ]);
+    this.prometheus.pendingQueueSize.set({ queue: PendingQueue.Deposit }, meta.pending_queues?.deposits_count ?? 0);
+    this.prometheus.pendingQueueSize.set({ queue: PendingQueue.PartialWithdrawal }, meta.pending_queues?.partial_withdrawals_count ?? 0);
+    this.prometheus.pendingQueueSize.set({ queue: PendingQueue.Consolidation }, meta.pending_queues?.consolidations_count ?? 0);
+    for (const queue of Object.values(PendingQueue)) {
+      const queueData = data.filter((item) => item.queue == queue);
+      setUserOperatorsMetric(this.prometheus.operatorPendingQueueCount, queueData, this.operators, { queue }, (item) => item.count);
+      setUserOperatorsMetric(
+        this.prometheus.operatorPendingQueueMinPosition,
+        queueData,
+        this.operators,
+        { queue },
+        (item) => item.min_position,
+      );
+    }
+  }
 }
@@ -12,10 +12,12 @@ import { Epoch, Slot } from 'common/consensus-provider/types';
 import { bigNumberSqrt } from 'common/functions/bigNumberSqrt';
 import { unblock } from 'common/functions/unblock';
 import { PrometheusService, TrackTask } from 'common/prometheus';
-import { SummaryService } from 'duty/summary';
+import { PendingQueue, PendingQueueItem, SummaryService, ValidatorDutySummary } from 'duty/summary';
 import { ClickhouseService } from 'storage/clickhouse';
 import { RegistryService } from 'validators-registry';
 
+import { SlashedValidator, getSlashingPenalties } from './state.slashings';
+
 const FAR_FUTURE_EPOCH = Infinity;
 
 type Validators = ListCompositeTreeView<
@@ -31,6 +33,29 @@ type Validators = ListCompositeTreeView<
   }>
 >;
 
+interface ReadonlyListView<T> {
+  getAllReadonlyValues(): T[];
+}
+
+// fields of the state to calculate inactivity penalties, scores are added in Altair
+interface InactivityState {
+  inactivityScores: ArrayBasicTreeView<UintNumberType>;
+  finalizedCheckpoint: { epoch: number };
+}
+
+// queues which are added to the state in Electra
+interface PendingQueues {
+  pendingDeposits?: ReadonlyListView<{ pubkey: Uint8Array; amount: number }>;
+  pendingPartialWithdrawals?: ReadonlyListView<{ validatorIndex: number; amount: number }>;
+  pendingConsolidations?: ReadonlyListView<{ sourceIndex: number; targetIndex: number }>;
+}
+
+const operatorOf = (v: ValidatorDutySummary) => ({
+  val_nos_module_id: v.val_nos_module_id,
+  val_nos_id: v.val_nos_id,
+  val_nos_name: v.val_nos_name,
+});
+
 @Injectable()
 export class StateService {
   public constructor(
@@ -53,7 +78,11 @@ export class StateService {
     this.logger.log('Processing all validators state');
     let activeValidatorsCount = 0;
     let activeValidatorsEffectiveBalance = 0n;
+    // pubkeys of user validators to find them in pending deposits
+    const userValidators = new Map<string, number>();
+    const slashedValidators: SlashedValidator[] = [];
     const balances = stateView.balances as ArrayBasicTreeView<UintNumberType>;
+    const { inactivityScores, finalizedCheckpoint } = stateView as unknown as InactivityState;
     const validators = stateView.validators as Validators;
     const iterator = iterateNodesAtDepth(
       validators.type.tree_getChunksNode(validators.node),
@@ -81,9 +110,16 @@ export class StateService {
         val_status: status,
         val_balance: BigInt(balances.get(index)),
         val_effective_balance: BigInt(validator.effectiveBalance),
+        val_withdrawal_credentials_type: validator.withdrawalCredentials[0],
+        val_inactivity_score: inactivityScores.get(index),
         val_stuck: stuckKeys.includes(pubkey),
       };
       this.summary.epoch(epoch).set(v);
+      if (operator) userValidators.set(pubkey, index);
+      if (validator.slashed) {
+        const { effectiveBalance, withdrawableEpoch } = validator;
+        slashedValidators.push({ index, effectiveBalance, withdrawableEpoch });
+      }
       if ([ValStatus.ActiveOngoing, ValStatus.ActiveExiting, ValStatus.ActiveSlashed].includes(status)) {
         activeValidatorsCount++;
         activeValidatorsEffectiveBalance += BigInt(validator.effectiveBalance) / BigInt(10 ** 9);
@@ -99,8 +135,99 @@ export class StateService {
         active_validators: activeValidatorsCount,
         active_validators_total_increments: activeValidatorsEffectiveBalance,
         base_reward: baseReward,
+        inactivity_leak: this.isInactivityLeak(epoch, finalizedCheckpoint.epoch),
       },
     });
+    const slashings = (stateView.slashings as ArrayBasicTreeView<UintNumberType>).getAll();
+    this.checkSlashings(epoch, slashedValidators, activeValidatorsEffectiveBalance, slashings);
+    await this.checkPendingQueues(epoch, stateView as unknown as PendingQueues, userValidators);
+  }
+
+  /**
+   * Sets initial and correlation penalties of slashed validators which are applied in the epoch
+   */
+  protected checkSlashings(epoch: Epoch, slashed: SlashedValidator[], totalIncrements: bigint, slashings: number[]): void {
+    const isElectra = epoch >= this.config.get('ELECTRA_FORK_EPOCH');
+    const spec = this.config.getChainSpec();
+    for (const penalty of getSlashingPenalties(epoch, slashed, totalIncrements, slashings, isElectra, spec)) {
+      this.summary.epoch(epoch).set({
+        epoch,
+        val_id: penalty.index,
+        slashing_initial_penalty: penalty.initial,
+        slashing_correlation_penalty: penalty.correlation,
+      });
+    }
+  }
+
+  /**
+   * Finds positions of user validators in pending deposits, partial withdrawals and consolidations queues
+   */
+  protected async checkPendingQueues(epoch: Epoch, queues: PendingQueues, userValidators: Map<string, number>): Promise<void> {
+    if (!queues.pendingDeposits) return;
+    this.logger.log('Processing pending queues of the state');
+    const userItems: PendingQueueItem[] = [];
+    const deposits = queues.pendingDeposits.getAllReadonlyValues();
+    for (const [position, deposit] of deposits.entries()) {
+      if (position % 1000 === 0) {
+        await unblock();
+      }
+      const pubkey = '0x'.concat(Buffer.from(deposit.pubkey).toString('hex'));
+      const operator = this.registry.getOperatorKey(pubkey);
+      if (!operator) continue;
+      userItems.push({
+        queue: PendingQueue.Deposit,
+        position,
+        // new validator doesn't have index until its first deposit is processed
+        val_id: userValidators.get(pubkey),
+        val_pubkey: pubkey,
+        amount: BigInt(deposit.amount),
+        val_nos_module_id: operator.moduleIndex,
+        val_nos_id: operator.operatorIndex,
+        val_nos_name: operator.operatorName,
+      });
+    }
+    const withdrawals = queues.pendingPartialWithdrawals.getAllReadonlyValues();
+    for (const [position, withdrawal] of withdrawals.entries()) {
+      const v = this.summary.epoch(epoch).get(withdrawal.validatorIndex);
+      if (v?.val_nos_id == undefined) continue;
+      userItems.push({
+        queue: PendingQueue.PartialWithdrawal,
+        position,
+        val_id: withdrawal.validatorIndex,
+        amount: BigInt(withdrawal.amount),
+        ...operatorOf(v),
+      });
+    }
+    const consolidations = queues.pendingConsolidations.getAllReadonlyValues();
+    for (const [position, consolidation] of consolidations.entries()) {
+      const source = this.summary.epoch(epoch).get(consolidation.sourceIndex);
+      const target = this.summary.epoch(epoch).get(consolidation.targetIndex);
+      // consolidation is attributed to the target operator if the source validator isn't user one
+      const owner = source?.val_nos_id != undefined ? source : target;
+      if (owner?.val_nos_id == undefined) continue;
+      userItems.push({
+        queue: PendingQueue.Consolidation,
+        position,
+        val_id: consolidation.sourceIndex,
+        target_val_id: consolidation.targetIndex,
+        ...operatorOf(owner),
+      });
+    }
+    const meta = this.summary.epoch(epoch).getMeta();
+    meta.pending_queues = {
+      deposits_count: deposits.length,
+      partial_withdrawals_count: withdrawals.length,
+      consolidations_count: consolidations.length,
+      user_items: userItems,
+    };
+  }
+
+  /**
+   * Rewards and penalties of the epoch are applied on transition to the next one for attestations of the previous epoch.
+   * Finalized checkpoint of the state before transition is used, so epochs where the leak starts or ends can be misjudged
+   */
+  protected isInactivityLeak(epoch: Epoch, finalizedEpoch: Epoch): boolean {
+    return epoch - 1 - finalizedEpoch > this.config.getChainSpec().MIN_EPOCHS_TO_INACTIVITY_PENALTY;
   }
 
   //https://github.com/ChainSafe/lodestar/blob/stable/packages/beacon-node/src/api/impl/beacon/state/utils.ts
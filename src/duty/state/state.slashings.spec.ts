@@ -0,0 +1,66 @@
+import { ChainSpec, MAINNET_PRESET } from 'common/config/chain-spec';
+
+import { getSlashingPenalties } from './state.slashings';
+
+const spec: ChainSpec = { ...MAINNET_PRESET, SECONDS_PER_SLOT: 12, forkEpochs: {} };
+
+const ETH = 10 ** 9;
+const EPOCH = 400000;
+// about the total effective balance of mainnet validators
+const TOTAL_INCREMENTS = 34_000_000n;
+
+const slashedAt = (index: number, effectiveBalance: number, epochsAgo: number) => ({
+  index,
+  effectiveBalance,
+  withdrawableEpoch: EPOCH - epochsAgo + spec.EPOCHS_PER_SLASHINGS_VECTOR,
+});
+
+describe('getSlashingPenalties', () => {
+  it.each([
+    ['before Electra', false, 32 * ETH, 1 * ETH],
+    ['after Electra', true, 32 * ETH, 7812500],
+    ['after Electra for compounding validator', true, 2048 * ETH, 500000000],
+  ])('calculates initial penalty %s', (_, isElectra, effectiveBalance, expected) => {
+    const penalties = getSlashingPenalties(EPOCH, [slashedAt(1, effectiveBalance, 0)], TOTAL_INCREMENTS, [], isElectra, spec);
+    expect(penalties).toEqual([{ index: 1, initial: expected }]);
+  });
+
+  it.each([
+    // the only slashed validator, the penalty is rounded to zero before Electra
+    ['before Electra', false, 32 * ETH, [32 * ETH], 0],
+    ['after Electra', true, 32 * ETH, [32 * ETH], 90336],
+    ['after Electra for compounding validator', true, 2048 * ETH, [2048 * ETH], 370083840],
+    // mass slashing of 100000 validators
+    ['before Electra in mass slashing', false, 32 * ETH, [50000 * 32 * ETH, 50000 * 32 * ETH], 9 * ETH],
+    ['after Electra in mass slashing', true, 32 * ETH, [50000 * 32 * ETH, 50000 * 32 * ETH], 9035294112],
+    ['before Electra for compounding validator in mass slashing', false, 2048 * ETH, [100000 * 32 * ETH], 578 * ETH],
+    ['after Electra for compounding validator in mass slashing', true, 2048 * ETH, [100000 * 32 * ETH], 578258823168],
+    // slashed balance is capped by the total balance, so the whole effective balance is taken
+    ['before Electra when a third of the balance is slashed', false, 32 * ETH, [12_000_000 * ETH], 32 * ETH],
+    ['after Electra when a third of the balance is slashed', true, 32 * ETH, [12_000_000 * ETH], 32 * ETH],
+  ])('calculates correlation penalty %s', (_, isElectra, effectiveBalance, slashings, expected) => {
+    const slashed = [slashedAt(1, effectiveBalance, spec.EPOCHS_PER_SLASHINGS_VECTOR / 2)];
+    const penalties = getSlashingPenalties(EPOCH, slashed, TOTAL_INCREMENTS, slashings, isElectra, spec);
+    expect(penalties).toEqual([{ index: 1, correlation: expected }]);
+  });
+
+  it('applies penalties only in epochs of slashing and the middle of the withdrawability delay', () => {
+    const slashed = [
+      slashedAt(1, 32 * ETH, 0),
+      slashedAt(2, 32 * ETH, 1),
+      slashedAt(3, 32 * ETH, spec.EPOCHS_PER_SLASHINGS_VECTOR / 2 - 1),
+      slashedAt(4, 32 * ETH, spec.EPOCHS_PER_SLASHINGS_VECTOR / 2),
+      slashedAt(5, 32 * ETH, spec.EPOCHS_PER_SLASHINGS_VECTOR / 2 + 1),
+    ];
+    const penalties = getSlashingPenalties(EPOCH, slashed, TOTAL_INCREMENTS, [5 * 32 * ETH], true, spec);
+    expect(penalties).toEqual([
+      { index: 1, initial: 7812500 },
+      { index: 4, correlation: 451744 },
+    ]);
+  });
+
+  it("doesn't apply correlation penalty without active balance", () => {
+    const slashed = [slashedAt(1, 32 * ETH, spec.EPOCHS_PER_SLASHINGS_VECTOR / 2)];
+    expect(getSlashingPenalties(EPOCH, slashed, 0n, [32 * ETH], true, spec)).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { ChainSpec } from 'common/config';
+import { Epoch } from 'common/consensus-provider/types';
+
+export interface SlashedValidator {
+  index: number;
+  effectiveBalance: number;
+  withdrawableEpoch: number;
+}
+
+export interface SlashingPenalty {
+  index: number;
+  initial?: number;
+  correlation?: number;
+}
+
+/**
+ * Calculates penalties of slashed validators which are applied in the epoch:
+ *   - initial one, when the slashing is included in the block
+ *   - correlation one, in the middle of the withdrawability delay. It depends on the total balance slashed in the last
+ *     EPOCHS_PER_SLASHINGS_VECTOR epochs
+ * Slashing epoch is restored from the withdrawable epoch, which is set to EPOCHS_PER_SLASHINGS_VECTOR epochs after slashing
+ */
+export const getSlashingPenalties = (
+  epoch: Epoch,
+  slashed: SlashedValidator[],
+  totalIncrements: bigint,
+  slashings: number[],
+  isElectra: boolean,
+  spec: ChainSpec,
+): SlashingPenalty[] => {
+  const initialQuotient = isElectra ? spec.MIN_SLASHING_PENALTY_QUOTIENT_ELECTRA : spec.MIN_SLASHING_PENALTY_QUOTIENT_BELLATRIX;
+  const increment = BigInt(10 ** 9);
+  const totalBalance = totalIncrements * increment;
+  const totalSlashed = slashings.reduce((sum, s) => sum + BigInt(s), 0n) * BigInt(spec.PROPORTIONAL_SLASHING_MULTIPLIER_BELLATRIX);
+  const adjustedTotalSlashed = totalSlashed < totalBalance ? totalSlashed : totalBalance;
+  const penalties: SlashingPenalty[] = [];
+  for (const v of slashed) {
+    if (v.withdrawableEpoch == epoch + spec.EPOCHS_PER_SLASHINGS_VECTOR) {
+      penalties.push({ index: v.index, initial: Math.trunc(v.effectiveBalance / initialQuotient) });
+    }
+    if (v.withdrawableEpoch == epoch + spec.EPOCHS_PER_SLASHINGS_VECTOR / 2 && totalBalance > 0n) {
+      const increments = BigInt(v.effectiveBalance) / increment;
+      // Electra changes the order of operations to avoid rounding to zero for small slashed balance
+      const penalty = isElectra
+        ? (adjustedTotalSlashed / totalIncrements) * increments
+        : ((increments * adjustedTotalSlashed) / totalBalance) * increment;
+      penalties.push({ index: v.index, correlation: Number(penalty) });
+    }
+  }
+  return penalties;
+};
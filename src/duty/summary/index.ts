@@ -1,3 +1,4 @@
 export * from './summary.module';
 export * from './summary.service';
+export * from './summary.interface';
 export * from './summary.metrics';
@@ -0,0 +1,48 @@
+export enum ExecutionRequestType {
+  Deposit = 'deposit',
+  Withdrawal = 'withdrawal',
+  // withdrawal request with zero amount
+  Exit = 'exit',
+  Consolidation = 'consolidation',
+}
+
+/**
+ * Request from EL which is included in the block from Electra (EIP-6110, EIP-7002, EIP-7251)
+ */
+export interface ExecutionRequest {
+  slot: number;
+  // position of the request in the list of requests of the same kind in the block
+  request_index: number;
+  request_type: ExecutionRequestType;
+  // validator of deposit or withdrawal, source validator of consolidation
+  val_pubkey: string;
+  target_pubkey?: string;
+  // withdrawal credentials of deposit, source address of withdrawal or consolidation
+  address: string;
+  amount?: bigint;
+  val_nos_module_id?: number;
+  val_nos_id?: number;
+  val_nos_name?: string;
+}
+
+export enum PendingQueue {
+  Deposit = 'deposit',
+  PartialWithdrawal = 'partial_withdrawal',
+  Consolidation = 'consolidation',
+}
+
+/**
+ * Item of the state pending queue which belongs to user validator
+ */
+export interface PendingQueueItem {
+  queue: PendingQueue;
+  position: number;
+  val_id?: number;
+  val_pubkey?: string;
+  // target validator of consolidation
+  target_val_id?: number;
+  amount?: bigint;
+  val_nos_module_id?: number;
+  val_nos_id?: number;
+  val_nos_name?: string;
+}
@@ -9,6 +9,12 @@ import { PrometheusService, TrackTask, setUserOperatorsMetric } from 'common/pro
 import { ClickhouseService } from 'storage';
 import { RegistryService, RegistrySourceOperator } from 'validators-registry';
 
+enum SlashingPenalty {
+  Initial = 'initial',
+  Correlation = 'correlation',
+  Ongoing = 'ongoing',
+}
+
 enum Duty {
   Proposal = 'proposal',
   Sync = 'sync',
@@ -33,11 +39,16 @@ export class SummaryMetrics {
     this.logger.log('Calculating propose metrics');
     this.processedEpoch = epoch;
     this.operators = this.registryService.getOperators();
-    await allSettled([this.userRewards(), this.avgChainRewards(), this.common()]);
+    await allSettled([
+      this.userRewards(),
+      this.avgChainRewards(),
+      this.common(),
+      this.config.get('REWARDS_API_VERIFICATION_ENABLED') ? this.userRewardsDiscrepancy() : undefined,
+    ]);
   }
 
   private async common() {
-    this.prometheus.epochTime = await this.clClient.getSlotTime(this.processedEpoch * 32 + 31);
+    this.prometheus.epochTime = await this.clClient.getSlotTime((this.processedEpoch + 1) * this.config.get('FETCH_INTERVAL_SLOTS') - 1);
     this.prometheus.epochNumber.set(Number(this.processedEpoch));
   }
 
@@ -57,6 +68,14 @@ export class SummaryMetrics {
     this.prometheus.avgChainPenalty.set({ duty: Duty.Sync }, result ? result.sync_penalty : 0);
   }
 
+  private async userRewardsDiscrepancy() {
+    const data = await this.storage.getUserNodeOperatorsRewardsDiscrepancyStats(this.processedEpoch);
+    const metric = this.prometheus.operatorRewardApiDiscrepancy;
+    setUserOperatorsMetric(metric, data, this.operators, { duty: Duty.Attestation }, (item) => item.att_discrepancy);
+    setUserOperatorsMetric(metric, data, this.operators, { duty: Duty.Proposal }, (item) => item.prop_discrepancy);
+    setUserOperatorsMetric(metric, data, this.operators, { duty: Duty.Sync }, (item) => item.sync_discrepancy);
+  }
+
   private async userRewards() {
     const data = await this.storage.getUserNodeOperatorsRewardsAndPenaltiesStats(this.processedEpoch);
     setUserOperatorsMetric(this.prometheus.operatorReward, data, this.operators, { duty: Duty.Attestation }, (item) => item.att_reward);
@@ -74,6 +93,28 @@ export class SummaryMetrics {
     setUserOperatorsMetric(this.prometheus.operatorPenalty, data, this.operators, { duty: Duty.Attestation }, (item) => item.att_penalty);
     setUserOperatorsMetric(this.prometheus.operatorPenalty, data, this.operators, { duty: Duty.Proposal }, (item) => item.prop_penalty);
     setUserOperatorsMetric(this.prometheus.operatorPenalty, data, this.operators, { duty: Duty.Sync }, (item) => item.sync_penalty);
+    const slashing = this.prometheus.operatorSlashingPenalty;
+    setUserOperatorsMetric(slashing, data, this.operators, { type: SlashingPenalty.Initial }, (item) => item.slashing_initial_penalty);
+    setUserOperatorsMetric(
+      slashing,
+      data,
+      this.operators,
+      { type: SlashingPenalty.Correlation },
+      (item) => item.slashing_correlation_penalty,
+    );
+    setUserOperatorsMetric(slashing, data, this.operators, { type: SlashingPenalty.Ongoing }, (item) => item.slashing_ongoing_penalty);
+    // validators of operator can have different effective balances since compounding (0x02) credentials
+    const perEth = (reward: number, balanceEth: number) => (balanceEth ? reward / balanceEth : 0);
+    const rewardPerEth = this.prometheus.operatorRewardPerEth;
+    setUserOperatorsMetric(rewardPerEth, data, this.operators, { duty: Duty.Attestation }, (item) =>
+      perEth(item.att_reward, item.effective_balance_eth),
+    );
+    setUserOperatorsMetric(rewardPerEth, data, this.operators, { duty: Duty.Proposal }, (item) =>
+      perEth(item.prop_reward, item.effective_balance_eth),
+    );
+    setUserOperatorsMetric(rewardPerEth, data, this.operators, { duty: Duty.Sync }, (item) =>
+      perEth(item.sync_reward, item.effective_balance_eth),
+    );
     setUserOperatorsMetric(this.prometheus.operatorRealBalanceDelta, data, this.operators, {}, (item) => item.real_balance_change);
     setUserOperatorsMetric(
       this.prometheus.operatorCalculatedBalanceDelta,
@@ -1,13 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { merge } from 'lodash';
 
+import { ConfigService } from 'common/config';
 import { ValStatus } from 'common/consensus-provider';
 import { Epoch } from 'common/consensus-provider/types';
 import { range } from 'common/functions/range';
 
+import { ExecutionRequest, PendingQueueItem } from './summary.interface';
+
 type BlockNumber = number;
 type ValidatorId = number;
 
+// Processed epoch and the previous one (for attestations). Summaries are large, so more epochs must not be held at once
+const MAX_EPOCHS = 2;
+
 export interface ValidatorDutySummary {
   epoch: Epoch;
   ///
@@ -22,6 +28,10 @@ export interface ValidatorDutySummary {
   val_balance_withdrawn?: bigint;
   val_stuck?: boolean;
   val_effective_balance?: bigint;
+  // first byte of withdrawal credentials: 0x00 - BLS, 0x01 - execution address, 0x02 - compounding
+  val_withdrawal_credentials_type?: number;
+  // grows while validator misses target during inactivity leak
+  val_inactivity_score?: number;
   ///
   is_proposer?: boolean;
   block_to_propose?: number;
@@ -43,12 +53,25 @@ export interface ValidatorDutySummary {
   att_earned_reward?: number;
   att_missed_reward?: number;
   att_penalty?: number;
+  // part of attestation penalty, which is applied to validators who miss target while the chain doesn't finalize
+  att_inactivity_penalty?: number;
   sync_earned_reward?: number;
   sync_missed_reward?: number;
   sync_penalty?: number;
   propose_earned_reward?: bigint;
   propose_missed_reward?: bigint;
   propose_penalty?: bigint;
+  // Slashing penalties. Ongoing one is for missed attestations until the validator is withdrawable,
+  // it's also included in attestation penalty while the validator is in committees
+  slashing_initial_penalty?: number;
+  slashing_correlation_penalty?: number;
+  slashing_ongoing_penalty?: number;
+  // Rewards from CL API, which are used to verify calculated ones
+  att_api_reward?: number;
+  att_api_penalty?: number;
+  sync_api_reward?: number;
+  sync_api_penalty?: number;
+  propose_api_reward?: bigint;
 }
 
 export interface EpochMeta {
@@ -57,6 +80,8 @@ export interface EpochMeta {
     active_validators?: number;
     active_validators_total_increments?: bigint;
     base_reward?: number;
+    // chain isn't finalized for more than MIN_EPOCHS_TO_INACTIVITY_PENALTY epochs
+    inactivity_leak?: boolean;
   };
   attestation?: {
     participation?: { source: bigint; target: bigint; head: bigint };
@@ -68,6 +93,14 @@ export interface EpochMeta {
     blocks_to_sync?: number[];
     blocks_rewards?: Map<BlockNumber, bigint>;
   };
+  execution_requests?: ExecutionRequest[];
+  pending_queues?: {
+    deposits_count?: number;
+    partial_withdrawals_count?: number;
+    consolidations_count?: number;
+    // will be stored in DB in separate table
+    user_items?: PendingQueueItem[];
+  };
 }
 
 export interface EpochInfo {
@@ -81,7 +114,7 @@ export type EpochStorage = Map<Epoch, EpochInfo>;
 export class SummaryService {
   protected storage: EpochStorage;
 
-  constructor() {
+  constructor(protected readonly config: ConfigService) {
     this.storage = new Map<Epoch, EpochInfo>();
   }
 
@@ -114,6 +147,12 @@ export class SummaryService {
   }
 
   private init(epoch: Epoch) {
+    if (this.storage.size >= MAX_EPOCHS) {
+      throw new Error(`Unable to hold summary of epoch [${epoch}]. Epochs [${[...this.storage.keys()]}] are already held`);
+    }
+    const slotsInEpoch = this.config.get('FETCH_INTERVAL_SLOTS');
+    // slots of the previous and the current epochs
+    const epochsSlots = range((epoch - 1) * slotsInEpoch, (epoch + 1) * slotsInEpoch);
     this.storage.set(epoch, {
       summary: new Map(),
       meta: {
@@ -121,19 +160,27 @@ export class SummaryService {
           active_validators: 0,
           active_validators_total_increments: 0n,
           base_reward: 0,
+          inactivity_leak: false,
         },
         attestation: {
           participation: { source: 0n, target: 0n, head: 0n },
           blocks_attestations: new Map<BlockNumber, { source?: number[]; target?: number[]; head?: number[] }[]>(
-            range(epoch * 32 - 32, epoch * 32 + 32).map((b) => [b, []]),
+            epochsSlots.map((b) => [b, []]),
           ),
-          blocks_rewards: new Map<BlockNumber, bigint>(range(epoch * 32 - 32, epoch * 32 + 32).map((b) => [b, 0n])),
+          blocks_rewards: new Map<BlockNumber, bigint>(epochsSlots.map((b) => [b, 0n])),
         },
         sync: {
-          blocks_rewards: new Map<BlockNumber, bigint>(range(epoch * 32 - 32, epoch * 32 + 32).map((b) => [b, 0n])),
+          blocks_rewards: new Map<BlockNumber, bigint>(epochsSlots.map((b) => [b, 0n])),
           per_block_reward: 0,
           blocks_to_sync: [],
         },
+        execution_requests: [],
+        pending_queues: {
+          deposits_count: 0,
+          partial_withdrawals_count: 0,
+          consolidations_count: 0,
+          user_items: [],
+        },
       },
     });
   }
@@ -2,12 +2,12 @@
 const SYNC_REWARD_WEIGHT = 2n;
 const WEIGHT_DENOMINATOR = 64n;
 
-export const SYNC_COMMITTEE_SIZE = 512;
-
 export const syncReward = (
   t: bigint, // Total validators increments (effective eths)
   b: number, // Base reward per increment
+  slotsPerEpoch: number,
+  syncCommitteeSize: number,
 ) => {
   // per synced slot
-  return (t * SYNC_REWARD_WEIGHT * BigInt(b)) / (32n * BigInt(SYNC_COMMITTEE_SIZE) * WEIGHT_DENOMINATOR);
+  return (t * SYNC_REWARD_WEIGHT * BigInt(b)) / (BigInt(slotsPerEpoch) * BigInt(syncCommitteeSize) * WEIGHT_DENOMINATOR);
 };
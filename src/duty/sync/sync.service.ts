@@ -8,8 +8,6 @@ import { Epoch, Slot, StateId } from 'common/consensus-provider/types';
 import { PrometheusService, TrackTask } from 'common/prometheus';
 import { SummaryService } from 'duty/summary';
 
-import { SYNC_COMMITTEE_SIZE } from './sync.constants';
-
 @Injectable()
 export class SyncService {
   public constructor(
@@ -23,7 +21,7 @@ export class SyncService {
   @TrackTask('check-sync-duties')
   public async check(epoch: Epoch, stateSlot: Slot): Promise<void> {
     this.logger.log(`Getting sync committee participation info`);
-    const SyncCommitteeBits = new BitVectorType(SYNC_COMMITTEE_SIZE); // sync participants count in committee
+    const SyncCommitteeBits = new BitVectorType(this.config.getChainSpec().SYNC_COMMITTEE_SIZE); // sync participants count in committee
     const indexedValidators = await this.getSyncCommitteeIndexedValidators(epoch, stateSlot);
     this.logger.log(`Processing sync committee participation info`);
     const epochBlocks: BlockInfoResponse[] = [];
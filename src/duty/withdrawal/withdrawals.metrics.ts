@@ -5,6 +5,7 @@ import { ConfigService } from 'common/config';
 import { Epoch } from 'common/consensus-provider/types';
 import { allSettled } from 'common/functions/allSettled';
 import { PrometheusService, TrackTask, setUserOperatorsMetric } from 'common/prometheus';
+import { ExecutionRequestType } from 'duty/summary';
 import { ClickhouseService } from 'storage/clickhouse';
 import { RegistryService, RegistrySourceOperator } from 'validators-registry';
 
@@ -30,7 +31,12 @@ export class WithdrawalsMetrics {
     this.logger.log('Calculating withdrawals metrics');
     this.processedEpoch = epoch;
     this.operators = this.registryService.getOperators();
-    await allSettled([this.userNodeOperatorsWithdrawalsStats(), this.otherChainWithdrawalsStats()]);
+    await allSettled([
+      this.userNodeOperatorsWithdrawalsStats(),
+      this.otherChainWithdrawalsStats(),
+      this.userNodeOperatorsExecutionRequestsStats(),
+      this.otherChainExecutionRequestsStats(),
+    ]);
   }
 
   private async userNodeOperatorsWithdrawalsStats() {
@@ -72,4 +78,20 @@ export class WithdrawalsMetrics {
     this.prometheus.otherChainWithdrawalsCount.set({ type: WithdrawalType.Partial }, result.partial_withdrawn_count);
     this.prometheus.otherChainWithdrawalsCount.set({ type: WithdrawalType.Full }, result.full_withdrawn_count);
   }
+
+  private async userNodeOperatorsExecutionRequestsStats() {
+    const data = await this.storage.getUserNodeOperatorsExecutionRequestsStats(this.processedEpoch);
+    for (const type of Object.values(ExecutionRequestType)) {
+      const typeData = data.filter((item) => item.request_type == type);
+      setUserOperatorsMetric(this.prometheus.operatorExecutionRequestsCount, typeData, this.operators, { type }, (item) => item.count);
+      setUserOperatorsMetric(this.prometheus.operatorExecutionRequestsSum, typeData, this.operators, { type }, (item) => item.amount);
+    }
+  }
+
+  private async otherChainExecutionRequestsStats() {
+    const data = await this.storage.getOtherChainExecutionRequestsStats(this.processedEpoch);
+    for (const type of Object.values(ExecutionRequestType)) {
+      this.prometheus.otherChainExecutionRequestsCount.set({ type }, data.find((item) => item.request_type == type)?.count ?? 0);
+    }
+  }
 }
@@ -0,0 +1,113 @@
+import { BlockInfoResponse, ExecutionRequests } from 'common/consensus-provider';
+import { ExecutionRequestType } from 'duty/summary/summary.interface';
+
+import { getExecutionRequests } from './withdrawals.requests';
+
+const pubkey = (byte: string) => `0x${byte.repeat(48)}`;
+const address = (byte: string) => `0x${byte.repeat(20)}`;
+
+const block = (slot: number, executionRequests?: ExecutionRequests): BlockInfoResponse =>
+  ({
+    message: {
+      slot: String(slot),
+      proposer_index: '1',
+      body: {
+        attestations: [],
+        sync_aggregate: { sync_committee_bits: '0x' },
+        execution_payload: { withdrawals: [] },
+        execution_requests: executionRequests,
+      },
+    },
+  } as BlockInfoResponse);
+
+describe('getExecutionRequests', () => {
+  it('returns nothing for block before Electra', () => {
+    expect(getExecutionRequests(block(11649023))).toEqual([]);
+  });
+
+  it('returns nothing for block without requests', () => {
+    expect(getExecutionRequests(block(11649024, { deposits: [], withdrawals: [], consolidations: [] }))).toEqual([]);
+  });
+
+  it('parses requests of all types and indexes them within the type', () => {
+    const requests = getExecutionRequests(
+      block(11649100, {
+        deposits: [
+          {
+            pubkey: pubkey('aa'),
+            withdrawal_credentials: `0x02${'00'.repeat(11)}${'11'.repeat(20)}`,
+            amount: '32000000000',
+            signature: `0x${'00'.repeat(96)}`,
+            index: '2000000',
+          },
+          {
+            pubkey: pubkey('bb'),
+            withdrawal_credentials: `0x01${'00'.repeat(11)}${'22'.repeat(20)}`,
+            amount: '1000000000',
+            signature: `0x${'00'.repeat(96)}`,
+            index: '2000001',
+          },
+        ],
+        withdrawals: [
+          { source_address: address('33'), validator_pubkey: pubkey('cc'), amount: '0' },
+          { source_address: address('44'), validator_pubkey: pubkey('dd'), amount: '5000000000' },
+        ],
+        consolidations: [
+          { source_address: address('55'), source_pubkey: pubkey('ee'), target_pubkey: pubkey('ff') },
+          // switch of the validator to compounding credentials
+          { source_address: address('66'), source_pubkey: pubkey('99'), target_pubkey: pubkey('99') },
+        ],
+      }),
+    );
+    expect(requests).toEqual([
+      {
+        slot: 11649100,
+        request_index: 0,
+        request_type: ExecutionRequestType.Deposit,
+        val_pubkey: pubkey('aa'),
+        address: `0x02${'00'.repeat(11)}${'11'.repeat(20)}`,
+        amount: 32000000000n,
+      },
+      {
+        slot: 11649100,
+        request_index: 1,
+        request_type: ExecutionRequestType.Deposit,
+        val_pubkey: pubkey('bb'),
+        address: `0x01${'00'.repeat(11)}${'22'.repeat(20)}`,
+        amount: 1000000000n,
+      },
+      {
+        slot: 11649100,
+        request_index: 0,
+        request_type: ExecutionRequestType.Exit,
+        val_pubkey: pubkey('cc'),
+        address: address('33'),
+        amount: 0n,
+      },
+      {
+        slot: 11649100,
+        request_index: 1,
+        request_type: ExecutionRequestType.Withdrawal,
+        val_pubkey: pubkey('dd'),
+        address: address('44'),
+        amount: 5000000000n,
+      },
+      {
+        slot: 11649100,
+        request_index: 0,
+        request_type: ExecutionRequestType.Consolidation,
+        val_pubkey: pubkey('ee'),
+        target_pubkey: pubkey('ff'),
+        address: address('55'),
+      },
+      {
+        slot: 11649100,
+        request_index: 1,
+        request_type: ExecutionRequestType.Consolidation,
+        val_pubkey: pubkey('99'),
+        target_pubkey: pubkey('99'),
+        address: address('66'),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+import { BlockInfoResponse } from 'common/consensus-provider';
+import { ExecutionRequest, ExecutionRequestType } from 'duty/summary/summary.interface';
+
+/**
+ * Deposits, withdrawal requests and consolidations sent from EL (Electra).
+ * Requests are indexed within their type as in the block
+ */
+export const getExecutionRequests = (block: BlockInfoResponse): ExecutionRequest[] => {
+  const { deposits = [], withdrawals = [], consolidations = [] } = block.message.body.execution_requests ?? {};
+  const slot = Number(block.message.slot);
+  return [
+    ...deposits.map((d, request_index) => ({
+      slot,
+      request_index,
+      request_type: ExecutionRequestType.Deposit,
+      val_pubkey: d.pubkey,
+      address: d.withdrawal_credentials,
+      amount: BigInt(d.amount),
+    })),
+    ...withdrawals.map((w, request_index) => ({
+      slot,
+      request_index,
+      // zero amount means the full exit of the validator
+      request_type: BigInt(w.amount) == 0n ? ExecutionRequestType.Exit : ExecutionRequestType.Withdrawal,
+      val_pubkey: w.validator_pubkey,
+      address: w.source_address,
+      amount: BigInt(w.amount),
+    })),
+    ...consolidations.map((c, request_index) => ({
+      slot,
+      request_index,
+      request_type: ExecutionRequestType.Consolidation,
+      val_pubkey: c.source_pubkey,
+      target_pubkey: c.target_pubkey,
+      address: c.source_address,
+    })),
+  ];
+};
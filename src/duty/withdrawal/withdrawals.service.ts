@@ -7,10 +7,12 @@ import { Epoch } from 'common/consensus-provider/types';
 import { allSettled } from 'common/functions/allSettled';
 import { range } from 'common/functions/range';
 import { PrometheusService, TrackTask } from 'common/prometheus';
-import { SummaryService } from 'duty/summary';
+import { ExecutionRequest, SummaryService } from 'duty/summary';
 import { ClickhouseService } from 'storage/clickhouse';
 import { RegistryService } from 'validators-registry';
 
+import { getExecutionRequests } from './withdrawals.requests';
+
 @Injectable()
 export class WithdrawalsService {
   public constructor(
@@ -40,6 +42,23 @@ export class WithdrawalsService {
           val_balance_withdrawn: BigInt(withdrawal.amount),
         });
       }
+      this.summary
+        .epoch(epoch)
+        .getMeta()
+        .execution_requests.push(...getExecutionRequests(block).map((request) => this.withOperator(request)));
     }
   }
+
+  /**
+   * Attributes EL requests to operators of the validators
+   */
+  protected withOperator(request: ExecutionRequest): ExecutionRequest {
+    const operator = this.registry.getOperatorKey(request.val_pubkey);
+    return {
+      ...request,
+      val_nos_module_id: operator?.moduleIndex,
+      val_nos_id: operator?.operatorIndex,
+      val_nos_name: operator?.operatorName,
+    };
+  }
 }
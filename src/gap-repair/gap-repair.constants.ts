@@ -0,0 +1 @@
+export const GAP_REPAIR_URL = 'gaps';
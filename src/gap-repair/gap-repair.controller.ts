@@ -0,0 +1,14 @@
+import { Controller, Get } from '@nestjs/common';
+
+import { GAP_REPAIR_URL } from './gap-repair.constants';
+import { GapRepairService } from './gap-repair.service';
+
+@Controller(GAP_REPAIR_URL)
+export class GapRepairController {
+  constructor(private gapRepairService: GapRepairService) {}
+
+  @Get()
+  status() {
+    return this.gapRepairService.getStatus();
+  }
+}
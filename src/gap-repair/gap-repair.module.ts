@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+
+import { BackfillModule } from 'backfill';
+import { ConsensusProviderModule } from 'common/consensus-provider';
+import { LeaderElectionModule } from 'common/leader-election';
+import { DutyModule } from 'duty';
+import { ClickhouseModule } from 'storage/clickhouse';
+import { RegistryModule } from 'validators-registry';
+
+import { GapRepairController } from './gap-repair.controller';
+import { GapRepairService } from './gap-repair.service';
+
+@Module({
+  imports: [ClickhouseModule, BackfillModule, LeaderElectionModule, ConsensusProviderModule, RegistryModule, DutyModule],
+  providers: [GapRepairService],
+  controllers: [GapRepairController],
+  exports: [GapRepairService],
+})
+export class GapRepairModule {}
@@ -0,0 +1,129 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { BackfillQueue, BackfillService } from 'backfill';
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { Epoch } from 'common/consensus-provider/types';
+import { range } from 'common/functions/range';
+import { sleep } from 'common/functions/sleep';
+import { LeaderElectionService } from 'common/leader-election';
+import { PrometheusService, TrackTask } from 'common/prometheus';
+import { DutyMetrics } from 'duty';
+import { ClickhouseService } from 'storage';
+import { RegistryService } from 'validators-registry';
+
+export enum GapType {
+  // epoch is not stored or its summary is missing
+  Missing = 'missing',
+  // epoch is stored, but its metrics weren't calculated. It's also the state of the epoch just stored by backfill
+  NotCalculated = 'not_calculated',
+}
+
+export interface GapsStatus {
+  scannedAt?: string;
+  from?: Epoch;
+  to?: Epoch;
+  gaps: Record<GapType, Epoch[]>;
+}
+
+@Injectable()
+export class GapRepairService {
+  protected status: GapsStatus = { gaps: { [GapType.Missing]: [], [GapType.NotCalculated]: [] } };
+
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly storage: ClickhouseService,
+    protected readonly backfillService: BackfillService,
+    protected readonly leaderElection: LeaderElectionService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly registryService: RegistryService,
+    protected readonly dutyMetrics: DutyMetrics,
+  ) {}
+
+  public start(): void {
+    if (!this.config.get('GAP_REPAIR_ENABLED')) return;
+    this.loop().then();
+  }
+
+  public getStatus(): GapsStatus & { queue: BackfillQueue } {
+    return { ...this.status, queue: this.backfillService.getQueue() };
+  }
+
+  protected async loop(): Promise<never> {
+    const epochTimeMs = this.config.get('FETCH_INTERVAL_SLOTS') * this.config.get('CHAIN_SLOT_TIME_SECONDS') * 1000;
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      try {
+        await this.scanAndRepair();
+      } catch (e) {
+        this.logger.error('Error while repairing epochs gaps');
+        this.logger.error(e as any);
+      }
+      await sleep(epochTimeMs);
+    }
+  }
+
+  /**
+   * Looks for not processed epochs in the window before the last processed epoch.
+   * Not stored epochs are passed to backfill workers and their metrics are calculated by the next scan
+   */
+  @TrackTask('repair-epochs-gaps')
+  protected async scanAndRepair(): Promise<void> {
+    // gaps are repaired by the leader only, because all instances share the same DB
+    if (!this.leaderElection.isLeader()) return;
+    // epochs after the last processed one are handled by the main loop
+    const to = (await this.storage.getLastProcessedEpoch()).epoch;
+    const from = Math.max(this.config.get('START_EPOCH'), to - this.config.get('GAP_REPAIR_WINDOW_EPOCHS') + 1);
+    if (to == 0 || from > to) return;
+    const [processing, summaryEpochs] = await Promise.all([
+      this.storage.getEpochsProcessingInRange(from, to),
+      this.storage.getSummaryEpochsInRange(from, to),
+    ]);
+    const processingByEpoch = new Map(processing.map((p) => [p.epoch, p]));
+    const withSummary = new Set(summaryEpochs);
+    const gaps: GapsStatus['gaps'] = { [GapType.Missing]: [], [GapType.NotCalculated]: [] };
+    for (const epoch of range(from, to + 1)) {
+      const state = processingByEpoch.get(epoch);
+      if (!state?.is_stored || !withSummary.has(epoch)) gaps[GapType.Missing].push(epoch);
+      else if (!state.is_calculated) gaps[GapType.NotCalculated].push(epoch);
+    }
+    this.status = { scannedAt: new Date().toISOString(), from, to, gaps };
+    Object.entries(gaps).forEach(([type, epochs]) => this.prometheus.epochGapsCount.set({ type }, epochs.length));
+    // epochs failed by backfill are repaired only when they are requested explicitly
+    const failed = new Set(this.backfillService.getQueue().failed);
+    const toRepair = gaps[GapType.Missing].filter((epoch) => !failed.has(epoch));
+    if (toRepair.length) {
+      this.logger.warn(`Found [${toRepair.length}] not processed epochs in range [${from}, ${to}]. Repairing`);
+      for (const epoch of toRepair) {
+        // epoch must be stored again if its summary is lost
+        if (processingByEpoch.get(epoch)?.is_stored) {
+          await this.storage.updateEpochProcessing({ epoch, is_stored: false, is_calculated: false });
+        }
+      }
+      this.backfillService.enqueue(toRepair);
+    }
+    if (gaps[GapType.NotCalculated].length) await this.calculate(gaps[GapType.NotCalculated]);
+  }
+
+  /**
+   * Calculates metrics of stored epochs and marks them as calculated. Duties metrics describe the latest processed epoch,
+   * so they are calculated again for it afterwards
+   */
+  protected async calculate(epochs: Epoch[]): Promise<void> {
+    this.logger.warn(`Found [${epochs.length}] epochs without calculated metrics. Calculating`);
+    const last = epochs[epochs.length - 1];
+    if (!this.registryService.isFilled()) {
+      const slotTime = await this.clClient.getSlotTime(last * this.config.get('FETCH_INTERVAL_SLOTS'));
+      await this.registryService.updateKeysRegistry(slotTime);
+    }
+    for (const epoch of epochs) {
+      // high reward validators are known only while processing the epoch
+      await this.dutyMetrics.calculate(epoch, []);
+    }
+    const { epoch } = await this.storage.getLastProcessedEpoch();
+    if (epoch) await this.dutyMetrics.calculateStored(epoch);
+  }
+}
@@ -0,0 +1,4 @@
+export * from './gap-repair.constants';
+export * from './gap-repair.controller';
+export * from './gap-repair.module';
+export * from './gap-repair.service';
@@ -0,0 +1,93 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService, WorkingMode } from 'common/config';
+import { ChainEvent, ConsensusProviderService, EventTopic } from 'common/consensus-provider';
+import { BlockCacheService } from 'common/consensus-provider/block-cache';
+import { RootHex } from 'common/consensus-provider/types';
+import { sleep } from 'common/functions/sleep';
+
+@Injectable()
+export class ChainEventsService {
+  protected connected = false;
+  protected waiters: (() => void)[] = [];
+
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly blockCacheService: BlockCacheService,
+  ) {}
+
+  public start(): void {
+    if (!this.config.get('CL_API_EVENTS_ENABLED')) return;
+    this.listen().then();
+  }
+
+  /**
+   * Waits for the next event which can make new data available for processing.
+   * If events stream is disconnected, it just waits for the next slot
+   */
+  public async wait(): Promise<void> {
+    const slotTimeMs = this.config.get('CHAIN_SLOT_TIME_SECONDS') * 1000;
+    if (!this.connected) return await sleep(slotTimeMs);
+    // polling with the epoch interval, in case some events are lost
+    await Promise.race([
+      new Promise<void>((resolve) => this.waiters.push(resolve)),
+      sleep(slotTimeMs * this.config.get('FETCH_INTERVAL_SLOTS')),
+    ]);
+  }
+
+  protected async listen(): Promise<never> {
+    const topics = [EventTopic.Head, EventTopic.Block, EventTopic.FinalizedCheckpoint, EventTopic.ChainReorg];
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      try {
+        this.logger.log(`Subscribing to beacon node events [${topics}]`);
+        await this.clClient.subscribeToEvents(topics, (event) => this.onEvent(event));
+        this.logger.warn('Beacon node events stream is closed');
+      } catch (e) {
+        this.logger.error('Error while listening to beacon node events');
+        this.logger.error(e as any);
+      }
+      this.connected = false;
+      // processing falls back to polling until the stream is reconnected
+      await sleep(this.config.get('CHAIN_SLOT_TIME_SECONDS') * 1000);
+    }
+  }
+
+  protected onEvent(event: ChainEvent): void {
+    this.connected = true;
+    switch (event.topic) {
+      case EventTopic.Block:
+        this.warmBlockCache(event.data.block);
+        break;
+      case EventTopic.Head:
+        if (this.config.get('WORKING_MODE') != WorkingMode.Finalized) this.wakeUp();
+        break;
+      case EventTopic.FinalizedCheckpoint:
+        this.wakeUp();
+        break;
+      case EventTopic.ChainReorg:
+        this.logger.warn(`Chain reorg at slot [${event.data.slot}] with depth [${event.data.depth}]`);
+        // Cached blocks may belong to the reorganized chain
+        this.blockCacheService.clear();
+        this.wakeUp();
+        break;
+    }
+  }
+
+  /**
+   * Block is requested by root, because the slot can be taken by another block after reorg.
+   * Header isn't requested, it's got by slot on processing to check that the block is canonical
+   */
+  protected warmBlockCache(root: RootHex): void {
+    this.clClient.getBlockInfo(root).catch((e) => this.logger.debug(`Failed to warm up blocks cache for block [${root}]. ${e.message}`));
+  }
+
+  protected wakeUp(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
@@ -0,0 +1,68 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { Epoch, Slot } from 'common/consensus-provider/types';
+import { allSettled } from 'common/functions/allSettled';
+import { PrometheusService, TrackTask, requestLabels } from 'common/prometheus';
+
+export enum ConsistencyCheck {
+  Header = 'header',
+  Finality = 'finality',
+  ProposerDuties = 'proposer_duties',
+}
+
+@Injectable()
+export class ConsistencyService {
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly clClient: ConsensusProviderService,
+  ) {}
+
+  /**
+   * Compares state slot header, finality checkpoints and proposer duties of the epoch from all CL API endpoints.
+   * Throws if more than `CL_API_CONSISTENCY_MAX_DIVERGENT_NODES` endpoints disagree with the majority or don't answer
+   */
+  @TrackTask('check-cl-consistency')
+  public async check(epoch: Epoch, stateSlot: Slot): Promise<void> {
+    const [headers, checkpoints, dependentRoots] = await allSettled([
+      this.clClient.getBlockHeaderFromAll(stateSlot),
+      this.clClient.getFinalityCheckpointsFromAll(stateSlot),
+      this.clClient.getDutyDependentRootFromAll(epoch),
+    ]);
+    const divergent = new Set([
+      ...this.compare(ConsistencyCheck.Header, new Map([...headers].map(([url, header]) => [url, header?.root]))),
+      ...this.compare(
+        ConsistencyCheck.Finality,
+        new Map([...checkpoints].map(([url, c]) => [url, c && `${c.finalized.epoch}:${c.finalized.root}`])),
+      ),
+      ...this.compare(ConsistencyCheck.ProposerDuties, dependentRoots),
+    ]);
+    if (divergent.size > this.config.get('CL_API_CONSISTENCY_MAX_DIVERGENT_NODES')) {
+      throw Error(`CL API endpoints [${[...divergent].join(', ')}] disagree about epoch [${epoch}]. Epoch will not be processed`);
+    }
+  }
+
+  /**
+   * Returns endpoints which values differ from the value of the majority or which didn't answer.
+   * In case of a tie the value of the endpoint with the best health score is considered as the majority
+   */
+  protected compare(check: ConsistencyCheck, values: Map<string, string | undefined>): string[] {
+    const counts = new Map<string, number>();
+    for (const value of values.values()) {
+      if (value != undefined) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    const majority = [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a), [undefined, 0])[0];
+    const divergent = [...values.entries()].filter(([, value]) => value == undefined || value != majority).map(([url]) => url);
+    for (const url of divergent) {
+      const target = requestLabels(url, '')[0];
+      const reason = values.get(url) == undefined ? "doesn't answer" : 'diverges from the majority';
+      this.logger.warn(`CL API endpoint [${target}] ${reason} in [${check}] check`);
+      this.prometheus.clApiDivergenceCount.inc({ check, target });
+    }
+    return divergent.map((url) => requestLabels(url, '')[0]);
+  }
+}
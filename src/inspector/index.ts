@@ -1,2 +1,3 @@
 export * from './inspector.module';
 export * from './inspector.service';
+export * from './reorg.service';
@@ -3,15 +3,28 @@ import { Module } from '@nestjs/common';
 import { CriticalAlertsModule } from 'common/alertmanager/critical-alerts.module';
 import { ConsensusProviderModule } from 'common/consensus-provider';
 import { BlockCacheModule } from 'common/consensus-provider/block-cache';
+import { LeaderElectionModule } from 'common/leader-election';
 import { DutyModule } from 'duty';
 import { ClickhouseModule } from 'storage/clickhouse';
 import { RegistryModule } from 'validators-registry';
 
+import { ChainEventsService } from './chain-events.service';
+import { ConsistencyService } from './consistency.service';
 import { InspectorService } from './inspector.service';
+import { ReconciliationService } from './reconciliation.service';
+import { ReorgService } from './reorg.service';
 
 @Module({
-  imports: [BlockCacheModule, CriticalAlertsModule, ClickhouseModule, RegistryModule, DutyModule, ConsensusProviderModule],
-  providers: [InspectorService],
+  imports: [
+    BlockCacheModule,
+    CriticalAlertsModule,
+    ClickhouseModule,
+    RegistryModule,
+    DutyModule,
+    ConsensusProviderModule,
+    LeaderElectionModule,
+  ],
+  providers: [InspectorService, ReorgService, ReconciliationService, ChainEventsService, ConsistencyService],
   exports: [InspectorService],
 })
 export class InspectorModule {}
@@ -1,20 +1,44 @@
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
-import { Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
+import { BeforeApplicationShutdown, Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
 
 import { CriticalAlertsService } from 'common/alertmanager';
 import { ConfigService, WorkingMode } from 'common/config';
 import { BlockHeaderResponse, ConsensusProviderService } from 'common/consensus-provider';
 import { BlockCacheService } from 'common/consensus-provider/block-cache';
-import { Slot } from 'common/consensus-provider/types';
+import { Epoch, Slot } from 'common/consensus-provider/types';
 import { sleep } from 'common/functions/sleep';
+import { LeaderElectionService } from 'common/leader-election';
 import { PrometheusService, TrackTask } from 'common/prometheus';
 import { DutyMetrics, DutyService } from 'duty';
 import { ClickhouseService } from 'storage';
-import { EpochProcessingState } from 'storage/clickhouse';
+import { DataVersion, EpochProcessingState } from 'storage/clickhouse';
 import { RegistryService } from 'validators-registry';
 
+import { ChainEventsService } from './chain-events.service';
+import { ConsistencyService } from './consistency.service';
+import { ReconciliationService } from './reconciliation.service';
+import { ReorgService } from './reorg.service';
+
+interface EpochProcessing {
+  epoch: Epoch;
+  // duties data of the epoch is being written to DB
+  storing: boolean;
+  done?: Promise<void>;
+}
+
+type EpochToProcess = EpochProcessingState & {
+  slot: Slot;
+  // the next epoch is already available, so the app is catching up with the chain
+  hasNext: boolean;
+};
+
 @Injectable()
-export class InspectorService implements OnModuleInit {
+export class InspectorService implements OnModuleInit, BeforeApplicationShutdown {
+  protected paused = false;
+  protected stopping = false;
+  protected processing?: EpochProcessing;
+  protected lastFollowedEpoch: Epoch;
+
   public constructor(
     @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
     protected readonly config: ConfigService,
@@ -27,39 +51,53 @@ export class InspectorService implements OnModuleInit {
 
     protected readonly dutyService: DutyService,
     protected readonly dutyMetrics: DutyMetrics,
+    protected readonly reorgService: ReorgService,
+    protected readonly reconciliationService: ReconciliationService,
+    protected readonly chainEvents: ChainEventsService,
+    protected readonly leaderElection: LeaderElectionService,
+    protected readonly consistency: ConsistencyService,
   ) {}
 
   public async onModuleInit(): Promise<void> {
     this.logger.log(`Starting epoch [${this.config.get('START_EPOCH')}]`);
     const latestProcessedEpoch = await this.storage.getLastProcessedEpoch();
-    this.prometheus.epochTime = await this.clClient.getSlotTime(latestProcessedEpoch.epoch * 32);
+    this.prometheus.epochTime = await this.clClient.getSlotTime(latestProcessedEpoch.epoch * this.config.get('FETCH_INTERVAL_SLOTS'));
     this.prometheus.epochNumber.set(Number(latestProcessedEpoch.epoch));
   }
 
-  public async startLoop(): Promise<never> {
+  public async startLoop(): Promise<void> {
     const version = await this.clClient.getVersion();
     this.logger.log(`Beacon chain API info [${version}]`);
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
+    this.clClient.startEndpointsProbing().then();
+    this.chainEvents.start();
+    while (!this.stopping) {
+      if (this.paused) {
+        // Pause is checked only between iterations, so the epoch being processed is always completed
+        await sleep(1000);
+        continue;
+      }
+      if (!this.leaderElection.isLeader()) {
+        await this.followLeader();
+        continue;
+      }
       try {
+        const workingMode = this.config.get('WORKING_MODE');
+        if (workingMode != WorkingMode.Finalized) {
+          // Non-finalized epochs may be processed on top of a chain that was reorganized later
+          await this.reorgService.check();
+        }
         const toProcess = await this.getEpochDataToProcess();
-        if (toProcess) {
-          if (this.config.get('WORKING_MODE') == WorkingMode.Head) {
+        if (toProcess && !this.stopping) {
+          if (workingMode == WorkingMode.Head) {
             this.logger.warn(`Working in HEAD mode. This can cause calculation errors and inaccurate data!`);
           }
-          const { epoch, slot, is_stored, is_calculated } = toProcess;
-          let possibleHighRewardValidators = [];
-          if (!is_stored) {
-            possibleHighRewardValidators = await this.dutyService.checkAndWrite({ epoch: epoch, stateSlot: slot });
-          }
-          if (!is_calculated) {
-            if (!this.registryService.isFilled()) {
-              const slotTime = await this.clClient.getSlotTime(epoch * this.config.get('FETCH_INTERVAL_SLOTS'));
-              await this.registryService.updateKeysRegistry(slotTime);
-            }
-            await this.dutyMetrics.calculate(epoch, possibleHighRewardValidators);
-          }
-          await this.criticalAlerts.send(epoch);
+          this.processing = { epoch: toProcess.epoch, storing: false };
+          this.processing.done = this.processEpoch(toProcess, workingMode);
+          await this.processing.done.finally(() => (this.processing = undefined));
+        }
+        if (workingMode == WorkingMode.Hybrid && !this.stopping) {
+          // Head data is used for alerts and metrics as soon as possible and then replaced by finalized data
+          await this.reconciliationService.reconcile();
         }
       } catch (e) {
         this.logger.error(`Error while processing and writing epoch`);
@@ -77,7 +115,96 @@ export class InspectorService implements OnModuleInit {
     }
   }
 
-  protected async getEpochDataToProcess(): Promise<EpochProcessingState & { slot: Slot }> {
+  /**
+   * Stops the loop and waits for the current epoch to be processed. If it takes longer than `SHUTDOWN_TIMEOUT_SECONDS`,
+   * in-flight inserts are aborted and partially written data is removed, so the epoch is processed again after restart
+   */
+  public async beforeApplicationShutdown(signal?: string): Promise<void> {
+    this.stopping = true;
+    const processing = this.processing;
+    if (!processing) return;
+    this.logger.log(`Waiting for epoch [${processing.epoch}] processing to be completed before shutdown [${signal}]`);
+    const completed = await Promise.race([
+      processing.done.then(
+        () => true,
+        () => true,
+      ),
+      sleep(this.config.get('SHUTDOWN_TIMEOUT_SECONDS') * 1000).then(() => false),
+    ]);
+    // Stored but not calculated epoch is just calculated after restart
+    if (completed || !processing.storing) return;
+    this.logger.warn(`Epoch [${processing.epoch}] is not processed in time. It will be processed again after restart`);
+    await this.storage.abortInserts();
+    await this.storage.deleteEpochs(processing.epoch, processing.epoch);
+  }
+
+  protected async processEpoch(toProcess: EpochToProcess, workingMode: WorkingMode): Promise<void> {
+    const { epoch, slot, is_stored, is_calculated, hasNext } = toProcess;
+    const dataVersion = workingMode == WorkingMode.Finalized ? DataVersion.Finalized : DataVersion.Head;
+    let possibleHighRewardValidators = [];
+    if (!is_stored) {
+      if (this.config.get('CL_API_CONSISTENCY_CHECK_ENABLED')) {
+        // Data from a node on a minority fork or with stale data must not be stored
+        await this.consistency.check(epoch, slot);
+      }
+      this.processing.storing = true;
+      possibleHighRewardValidators = await this.dutyService.checkAndWrite({
+        epoch: epoch,
+        stateSlot: slot,
+        dataVersion,
+        prefetchNext: hasNext && this.config.get('PIPELINE_ENABLED'),
+      });
+      this.processing.storing = false;
+    }
+    // Processing state is consistent between stages, so the rest is done after restart
+    if (this.stopping) return;
+    if (!is_calculated) {
+      await this.fillRegistry(epoch);
+      await this.dutyMetrics.calculate(epoch, possibleHighRewardValidators);
+    }
+    if (this.stopping) return;
+    await this.criticalAlerts.send(epoch);
+  }
+
+  /**
+   * Standby instance doesn't process epochs, but serves metrics of the epochs processed by the leader
+   */
+  protected async followLeader(): Promise<void> {
+    try {
+      const { epoch } = await this.storage.getLastProcessedEpoch();
+      if (epoch && epoch != this.lastFollowedEpoch) {
+        await this.fillRegistry(epoch);
+        await this.dutyMetrics.calculateStored(epoch);
+        this.lastFollowedEpoch = epoch;
+      }
+    } catch (e) {
+      this.logger.error(`Error while calculating metrics of stored epoch`);
+      this.logger.error(e as any);
+    }
+    await sleep(this.config.get('CHAIN_SLOT_TIME_SECONDS') * 1000);
+  }
+
+  protected async fillRegistry(epoch: Epoch): Promise<void> {
+    if (this.registryService.isFilled()) return;
+    const slotTime = await this.clClient.getSlotTime(epoch * this.config.get('FETCH_INTERVAL_SLOTS'));
+    await this.registryService.updateKeysRegistry(slotTime);
+  }
+
+  public pause(): void {
+    if (!this.paused) this.logger.warn('Epochs processing is paused');
+    this.paused = true;
+  }
+
+  public resume(): void {
+    if (this.paused) this.logger.log('Epochs processing is resumed');
+    this.paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  protected async getEpochDataToProcess(): Promise<EpochToProcess> {
     const chosen = await this.chooseEpochToProcess();
     const latestBeaconBlock = Number((<BlockHeaderResponse>await this.clClient.getLatestBlockHeader(chosen)).header.message.slot);
     let latestEpoch = Math.trunc(latestBeaconBlock / this.config.get('FETCH_INTERVAL_SLOTS'));
@@ -87,13 +214,10 @@ export class InspectorService implements OnModuleInit {
     }
     if (chosen.slot > latestBeaconBlock) {
       // new latest slot hasn't happened, from which parent we can get information about needed state
-      // just wait `CHAIN_SLOT_TIME_SECONDS` until new slot happens
-      const sleepTime = this.config.get('CHAIN_SLOT_TIME_SECONDS');
-      this.logger.log(`Latest epoch [${latestEpoch}]. Waiting [${sleepTime}] seconds for the end of epoch [${chosen.epoch}]`);
-
-      return new Promise((resolve) => {
-        setTimeout(() => resolve(undefined), sleepTime * 1000);
-      });
+      // just wait for the next chain event or `CHAIN_SLOT_TIME_SECONDS` until new slot happens
+      this.logger.log(`Latest epoch [${latestEpoch}]. Waiting for the end of epoch [${chosen.epoch}]`);
+      await this.chainEvents.wait();
+      return;
     }
     // new epoch has happened, from which parent we can get information about needed state
     const existedHeader = (await this.clClient.getBeaconBlockHeaderOrPreviousIfMissed(chosen.slot)).header.message;
@@ -112,6 +236,7 @@ export class InspectorService implements OnModuleInit {
     return {
       ...chosen,
       slot: Number(existedHeader.slot),
+      hasNext: chosen.slot + this.config.get('FETCH_INTERVAL_SLOTS') <= latestBeaconBlock,
     };
   }
 
@@ -127,7 +252,9 @@ export class InspectorService implements OnModuleInit {
       lastProcessed = { epoch: max.max, is_stored: true, is_calculated: true };
     }
     this.logger.log(`Last processed epoch [${lastProcessed.epoch}]`);
-    if ((last.is_stored && !last.is_calculated) || (!last.is_stored && last.is_calculated)) {
+    const isBackfilled = this.config.get('BACKFILL_ENABLED') && last.epoch <= this.config.get('BACKFILL_END_EPOCH');
+    // Backfill epochs are completed by backfill workers
+    if (!isBackfilled && ((last.is_stored && !last.is_calculated) || (!last.is_stored && last.is_calculated))) {
       this.logger.debug(JSON.stringify(last));
       this.logger.warn(`Epoch [${last.epoch}] processing was not completed correctly. Trying to complete`);
       next = last;
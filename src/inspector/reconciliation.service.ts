@@ -0,0 +1,40 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { PrometheusService, TrackTask } from 'common/prometheus';
+import { DutyService } from 'duty';
+import { ClickhouseService } from 'storage';
+import { DataVersion } from 'storage/clickhouse';
+
+@Injectable()
+export class ReconciliationService {
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly storage: ClickhouseService,
+    protected readonly dutyService: DutyService,
+  ) {}
+
+  /**
+   * Processes the oldest epoch stored from head state again, if it is already finalized.
+   * Data from finalized state overwrites data from head state
+   */
+  @TrackTask('reconcile-head-epoch')
+  public async reconcile(): Promise<void> {
+    const finalized = await this.clClient.getFinalizedEpoch();
+    const [epoch] = await this.storage.getHeadEpochsFinalized(finalized);
+    if (epoch == undefined) return;
+    const step = this.config.get('FETCH_INTERVAL_SLOTS');
+    const stateHeader = await this.clClient.getBeaconBlockHeaderOrPreviousIfMissed(epoch * step + (step - 1));
+    this.logger.log(`Epoch [${epoch}] is finalized. Reprocessing it with finalized state slot [${stateHeader.header.message.slot}]`);
+    await this.dutyService.checkAndWrite({ epoch, stateSlot: Number(stateHeader.header.message.slot), dataVersion: DataVersion.Finalized });
+    const diff = await this.storage.getHeadAndFinalizedDiff(epoch);
+    this.logger.log(`Epoch [${epoch}] head and finalized data diff: ${JSON.stringify(diff)}`);
+    Object.entries(diff).forEach(([duty, count]) => this.prometheus.headAndFinalizedDiff.set({ duty }, count));
+    await this.storage.deleteEpochDataVersion(epoch, DataVersion.Head);
+  }
+}
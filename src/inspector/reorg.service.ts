@@ -0,0 +1,97 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ConfigService } from 'common/config';
+import { ConsensusProviderService } from 'common/consensus-provider';
+import { BlockCacheService } from 'common/consensus-provider/block-cache';
+import { Epoch } from 'common/consensus-provider/types';
+import { allSettled } from 'common/functions/allSettled';
+import { PrometheusService, TrackTask } from 'common/prometheus';
+import { ClickhouseService } from 'storage';
+import { EpochProcessingState } from 'storage/clickhouse';
+
+// Limits requests to CL nodes when there are a lot of not verified epochs, e.g. after restart during long non-finality
+const MAX_EPOCHS_TO_CHECK = 16;
+
+export enum ReprocessingReason {
+  Reorg = 'reorg',
+  Manual = 'manual',
+}
+
+@Injectable()
+export class ReorgService {
+  // The newest epoch which was processed on top of the canonical chain at the last check
+  protected lastVerified?: Epoch;
+
+  public constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+    protected readonly clClient: ConsensusProviderService,
+    protected readonly storage: ClickhouseService,
+    protected readonly blockCacheService: BlockCacheService,
+  ) {}
+
+  /**
+   * Compares block roots of stored non-finalized epochs with the canonical chain.
+   * If they diverge, data of the first reorganized epoch and all next epochs is removed to be processed again.
+   * Blocks of verified epochs are ancestors of the last verified one, so only it and the epochs stored after it are checked
+   */
+  @TrackTask('check-reorgs')
+  public async check(): Promise<void> {
+    const finalized = await this.clClient.getFinalizedEpoch();
+    const stored = await this.storage.getNonFinalizedEpochProcessing(finalized);
+    const toCheck = stored.filter((s) => s.epoch >= (this.lastVerified ?? 0)).slice(-MAX_EPOCHS_TO_CHECK);
+    for (const processed of toCheck) {
+      if (await this.isCanonical(processed)) {
+        this.lastVerified = processed.epoch;
+        continue;
+      }
+      // previously verified epochs can be reorganized as well
+      const first =
+        processed.epoch == this.lastVerified
+          ? await this.findFirstReorganized(stored.filter((s) => s.epoch <= processed.epoch))
+          : processed;
+      this.logger.warn(`Epoch [${first.epoch}] was processed on top of the reorganized chain`);
+      await this.invalidateFrom(first.epoch, stored.filter((s) => s.epoch >= first.epoch).length);
+      this.lastVerified = undefined;
+      return;
+    }
+  }
+
+  /**
+   * Verified epochs are canonical up to the first reorganized one, so it's found by binary search
+   * @param verified - verified epochs, the last of them is reorganized
+   */
+  protected async findFirstReorganized(verified: EpochProcessingState[]): Promise<EpochProcessingState> {
+    let [canonical, reorganized] = [-1, verified.length - 1];
+    while (reorganized - canonical > 1) {
+      const middle = Math.floor((canonical + reorganized) / 2);
+      if (await this.isCanonical(verified[middle])) canonical = middle;
+      else reorganized = middle;
+    }
+    return verified[reorganized];
+  }
+
+  protected async isCanonical(processed: EpochProcessingState): Promise<boolean> {
+    const step = this.config.get('FETCH_INTERVAL_SLOTS');
+    const [stateHeader, proposerDependentRoot, attesterDependentRoot] = await allSettled([
+      this.clClient.getPreviousNotMissedBlockHeader(processed.epoch * step + (step - 1), undefined, true),
+      this.clClient.getDutyDependentRoot(processed.epoch, true),
+      this.clClient.getDutyDependentRoot(processed.epoch - 1, true),
+    ]);
+    return (
+      stateHeader.root == processed.state_slot_root &&
+      proposerDependentRoot == processed.proposer_dependent_root &&
+      attesterDependentRoot == processed.attester_dependent_root
+    );
+  }
+
+  protected async invalidateFrom(epoch: Epoch, count: number): Promise<void> {
+    this.logger.warn(`Removing stored data from epoch [${epoch}] to reprocess [${count}] epochs`);
+    await this.storage.deleteEpochs(epoch);
+    // Cached blocks may belong to the reorganized chain
+    this.blockCacheService.clear();
+    this.prometheus.epochReprocessingCount.inc({ reason: ReprocessingReason.Reorg }, count);
+  }
+}
@@ -20,6 +20,9 @@ async function bootstrap() {
   // logger
   app.useLogger(app.get(LOGGER_PROVIDER));
 
+  // shutdown
+  app.enableShutdownHooks();
+
   // app
   await app.listen(appPort, '0.0.0.0');
 }
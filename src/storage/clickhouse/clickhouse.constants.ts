@@ -1,17 +1,134 @@
 import { ValStatus } from 'common/consensus-provider';
 import { Epoch } from 'common/consensus-provider/types';
+import { ExecutionRequestType, PendingQueue } from 'duty/summary/summary.interface';
 
 const perfStatuses = [ValStatus.ActiveOngoing, ValStatus.ActiveExiting, ValStatus.ActiveSlashed, ValStatus.PendingInitialized]
   .map((s) => `'${s}'`)
   .join(',');
 
+// max effective balance of validator with 0x01 withdrawal credentials, gwei
+const MIN_ACTIVATION_BALANCE = 32 * 10 ** 9;
+
+// Consolidations which source validators left the pending queue after the `from` epoch up to the `to` one.
+// States are taken at the end of epochs, so the source is in the queue for the last time in the epoch before processing
+const processedConsolidations = (from: Epoch, to: Epoch): string => `
+  SELECT assumeNotNull(val_id) as val_id, assumeNotNull(target_val_id) as target_val_id, max(epoch) as last_epoch
+  FROM pending_queues
+  WHERE
+    queue = '${PendingQueue.Consolidation}' AND
+    val_id IS NOT NULL AND
+    epoch >= ${from} AND epoch <= ${to}
+  GROUP BY val_id, target_val_id
+  HAVING last_epoch < ${to}
+`;
+
+// Balance moved to the target validator is the lesser of the balance and effective balance of not slashed source
+const consolidatedBalances = (from: Epoch, to: Epoch): string => `
+  SELECT consolidations.target_val_id as val_id, sum(least(sources.val_balance, sources.val_effective_balance)) as amount
+  FROM (${processedConsolidations(from, to)}) AS consolidations
+  INNER JOIN (
+    SELECT epoch, val_id, val_balance, val_effective_balance
+    FROM validators_summary
+    WHERE
+      val_slashed = 0 AND
+      (epoch, val_id) IN (SELECT last_epoch, val_id FROM (${processedConsolidations(from, to)}))
+    LIMIT 1 BY epoch, val_id
+  ) AS sources
+  ON
+    sources.epoch = consolidations.last_epoch AND
+    sources.val_id = consolidations.val_id
+  GROUP BY consolidations.target_val_id
+`;
+
+// Deposits applied to balances after the `from` epoch up to the `to` one. Deposit requests of the epoch are already queued
+// in its state, so the applied amount is queued in the `from` state + requested since it - queued in the `to` state
+const appliedDeposits = (from: Epoch, to: Epoch): string => `
+  SELECT validators.val_id as val_id, sum(deposits.amount) as amount
+  FROM (
+    SELECT val_pubkey, toInt64(amount) as amount
+    FROM (
+      SELECT position, val_pubkey, amount
+      FROM pending_queues
+      WHERE
+        queue = '${PendingQueue.Deposit}' AND
+        val_nos_id IS NOT NULL AND
+        epoch = ${from}
+      LIMIT 1 BY position
+    )
+    UNION ALL
+    SELECT val_pubkey, -toInt64(amount) as amount
+    FROM (
+      SELECT position, val_pubkey, amount
+      FROM pending_queues
+      WHERE
+        queue = '${PendingQueue.Deposit}' AND
+        val_nos_id IS NOT NULL AND
+        epoch = ${to}
+      LIMIT 1 BY position
+    )
+    UNION ALL
+    SELECT val_pubkey, toInt64(amount) as amount
+    FROM (
+      SELECT slot, request_index, val_pubkey, amount
+      FROM execution_requests
+      WHERE
+        request_type = '${ExecutionRequestType.Deposit}' AND
+        val_nos_id IS NOT NULL AND
+        epoch > ${from} AND epoch <= ${to}
+      LIMIT 1 BY slot, request_index
+    )
+  ) AS deposits
+  INNER JOIN (
+    SELECT val_id, val_pubkey
+    FROM validators_index
+    LIMIT 1 BY val_id
+  ) AS validators
+  ON
+    validators.val_pubkey = deposits.val_pubkey
+  GROUP BY validators.val_id
+`;
+
+// Deposits and consolidations aren't earned, so they are subtracted from balance deltas
+const topUps = (from: Epoch, to: Epoch, current: string): string => `
+  LEFT JOIN (${appliedDeposits(from, to)}) AS deposits
+  ON
+    deposits.val_id = ${current}.val_id
+  LEFT JOIN (${consolidatedBalances(from, to)}) AS consolidations
+  ON
+    consolidations.val_id = ${current}.val_id
+`;
+
+const balanceDelta = (current: string, previous: string): string =>
+  `${current}.val_balance - ${previous}.val_balance + ifNull(withdrawals.withdrawn, 0) - ifNull(deposits.amount, 0) - ifNull(consolidations.amount, 0)`;
+
+// Balance of consolidation source is moved to the target without withdrawal, so the source is skipped in balance deltas
+const notConsolidationSource = (from: Epoch, to: Epoch, current: string): string => `
+  ${current}.val_id NOT IN (
+    SELECT assumeNotNull(val_id)
+    FROM pending_queues
+    WHERE
+      queue = '${PendingQueue.Consolidation}' AND
+      val_id IS NOT NULL AND
+      epoch >= ${from} AND epoch <= ${to}
+  )
+`;
+
+// Only withdrawable validators are fully withdrawn. Zero balance isn't a sign of it, because balance of compounding
+// validator can be withdrawn partially by EL request and balance of consolidated one is moved without withdrawal
+const isFullWithdrawal = `val_status IN ['${ValStatus.WithdrawalPossible}', '${ValStatus.WithdrawalDone}']`;
+
+// balance delta of validator with effective balance above 32 ETH is scaled to the delta of 32 ETH validator
+const deltaPer32Eth = (delta: string, current: string): string =>
+  `(${delta}) / greatest(1, ${current}.val_effective_balance / ${MIN_ACTIVATION_BALANCE})`;
+
 export const avgValidatorBalanceDelta = (epoch: Epoch): string => `
   SELECT
     current.val_nos_module_id as val_nos_module_id,
     current.val_nos_id as val_nos_id,
-    avg(current.val_balance - previous.val_balance + ifNull(withdrawals.withdrawn, 0)) AS amount
+    avg(${balanceDelta('current', 'previous')}) AS amount,
+    avg(${deltaPer32Eth(balanceDelta('current', 'previous'), 'current')}) AS amount_per_32_eth
   FROM (
-    SELECT val_balance, val_id, val_nos_module_id, val_nos_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_module_id, val_nos_id
     FROM validators_summary
     WHERE
       val_status in [${perfStatuses}] AND
@@ -21,7 +138,7 @@ export const avgValidatorBalanceDelta = (epoch: Epoch): string => `
     LIMIT 1 BY val_id
   ) AS current
   INNER JOIN (
-    SELECT val_balance, val_id, val_nos_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_id
     FROM validators_summary
     WHERE
       val_status in [${perfStatuses}] AND
@@ -50,6 +167,8 @@ export const avgValidatorBalanceDelta = (epoch: Epoch): string => `
   ) AS withdrawals
   ON
     withdrawals.val_id = current.val_id
+  ${topUps(epoch - 6, epoch, 'current')}
+  WHERE ${notConsolidationSource(epoch - 6, epoch, 'current')}
   GROUP BY current.val_nos_module_id, current.val_nos_id
 `;
 
@@ -57,9 +176,14 @@ export const validatorQuantile0001BalanceDeltasQuery = (epoch: Epoch): string =>
   SELECT
     current.val_nos_module_id as val_nos_module_id,
     current.val_nos_id as val_nos_id,
-    quantileExact(0.001)(current.val_balance - previous.val_balance + ifNull(withdrawals.withdrawn, 0)) AS amount
+    quantileExact(0.001)(
+      ${balanceDelta('current', 'previous')}
+    ) AS amount,
+    quantileExact(0.001)(
+      ${deltaPer32Eth(balanceDelta('current', 'previous'), 'current')}
+    ) AS amount_per_32_eth
   FROM (
-    SELECT val_balance, val_id, val_nos_id, val_nos_module_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_id, val_nos_module_id
     FROM validators_summary
     WHERE
       val_status in [${perfStatuses}] AND
@@ -69,7 +193,7 @@ export const validatorQuantile0001BalanceDeltasQuery = (epoch: Epoch): string =>
     LIMIT 1 BY val_id
   ) AS current
   INNER JOIN (
-    SELECT val_balance, val_id, val_nos_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_id
     FROM validators_summary
     WHERE
       val_status in [${perfStatuses}] AND
@@ -98,6 +222,8 @@ export const validatorQuantile0001BalanceDeltasQuery = (epoch: Epoch): string =>
   ) AS withdrawals
   ON
     withdrawals.val_id = current.val_id
+  ${topUps(epoch - 6, epoch, 'current')}
+  WHERE ${notConsolidationSource(epoch - 6, epoch, 'current')}
   GROUP BY current.val_nos_module_id, current.val_nos_id
 `;
 
@@ -107,7 +233,7 @@ export const validatorsCountWithNegativeDeltaQuery = (epoch: Epoch): string => `
     current.val_nos_id as val_nos_id,
     count(current.val_id) AS amount
   FROM (
-      SELECT val_balance, val_id, val_nos_module_id, val_nos_id, val_slashed
+      SELECT val_balance, val_effective_balance, val_id, val_nos_module_id, val_nos_id, val_slashed
       FROM validators_summary
       WHERE
         val_status in [${perfStatuses}] AND
@@ -117,7 +243,7 @@ export const validatorsCountWithNegativeDeltaQuery = (epoch: Epoch): string => `
       LIMIT 1 BY val_id
   ) AS current
   INNER JOIN (
-    SELECT val_balance, val_id, val_nos_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_id
     FROM validators_summary
     WHERE
       val_status in [${perfStatuses}] AND
@@ -146,8 +272,10 @@ export const validatorsCountWithNegativeDeltaQuery = (epoch: Epoch): string => `
   ) AS withdrawals
   ON
     withdrawals.val_id = current.val_id
+  ${topUps(epoch - 6, epoch, 'current')}
+  WHERE ${notConsolidationSource(epoch - 6, epoch, 'current')}
   GROUP BY current.val_nos_module_id, current.val_nos_id
-  HAVING (current.val_balance - previous.val_balance + ifNull(withdrawals.withdrawn, 0)) < 0 AND current.val_slashed = 0
+  HAVING (${balanceDelta('current', 'previous')}) < 0 AND current.val_slashed = 0
 `;
 
 export const validatorsCountWithSyncParticipationByConditionLastNEpochQuery = (
@@ -334,9 +462,9 @@ export const operatorsSyncParticipationAvgPercentsQuery = (epoch: Epoch): string
 export const totalBalance24hDifferenceQuery = (epoch: Epoch): string => `
   SELECT
     curr.val_nos_module_id as val_nos_module_id,
-    SUM(curr.val_balance - previous.val_balance + ifNull(withdrawals.withdrawn, 0)) as amount
+    SUM(${balanceDelta('curr', 'previous')}) as amount
   FROM (
-    SELECT val_balance, val_id, val_nos_module_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_module_id
     FROM validators_summary
     WHERE
       val_status != '${ValStatus.PendingQueued}' AND
@@ -346,7 +474,7 @@ export const totalBalance24hDifferenceQuery = (epoch: Epoch): string => `
     LIMIT 1 BY val_id
   ) as curr
   INNER JOIN (
-    SELECT val_balance, val_id
+    SELECT val_balance, val_effective_balance, val_id
     FROM validators_summary
     WHERE
       val_status != '${ValStatus.PendingQueued}' AND
@@ -375,6 +503,8 @@ export const totalBalance24hDifferenceQuery = (epoch: Epoch): string => `
   ) AS withdrawals
   ON
     withdrawals.val_id = curr.val_id
+  ${topUps(epoch - 225, epoch, 'curr')}
+  WHERE ${notConsolidationSource(epoch - 225, epoch, 'curr')}
   GROUP BY curr.val_nos_module_id
 `;
 
@@ -382,9 +512,9 @@ export const operatorBalance24hDifferenceQuery = (epoch: Epoch): string => `
   SELECT
     curr.val_nos_module_id as val_nos_module_id,
     curr.val_nos_id as val_nos_id,
-    SUM(curr.val_balance - previous.val_balance + ifNull(withdrawals.withdrawn, 0)) as amount
+    SUM(${balanceDelta('curr', 'previous')}) as amount
   FROM (
-    SELECT val_balance, val_id, val_nos_module_id, val_nos_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_module_id, val_nos_id
     FROM validators_summary
     WHERE
       val_status != '${ValStatus.PendingQueued}' AND
@@ -394,7 +524,7 @@ export const operatorBalance24hDifferenceQuery = (epoch: Epoch): string => `
     LIMIT 1 BY val_id
   ) as curr
   INNER JOIN (
-    SELECT val_balance, val_id, val_nos_id
+    SELECT val_balance, val_effective_balance, val_id, val_nos_id
     FROM validators_summary
     WHERE
       val_status != '${ValStatus.PendingQueued}' AND
@@ -424,6 +554,8 @@ export const operatorBalance24hDifferenceQuery = (epoch: Epoch): string => `
   ON
     withdrawals.val_nos_id = curr.val_nos_id AND
     withdrawals.val_id = curr.val_id
+  ${topUps(epoch - 225, epoch, 'curr')}
+  WHERE ${notConsolidationSource(epoch - 225, epoch, 'curr')}
   GROUP BY curr.val_nos_module_id, curr.val_nos_id
 `;
 
@@ -580,6 +712,106 @@ export const epochProcessing = (epoch: Epoch): string => `
   WHERE epoch = ${epoch}
 `;
 
+export const nonFinalizedEpochProcessing = (finalized: Epoch): string => `
+  SELECT *
+  FROM epochs_processing
+  WHERE epoch > ${finalized} AND state_slot_root IS NOT NULL
+  ORDER BY epoch
+`;
+
+export const headEpochsFinalizedQuery = (finalized: Epoch): string => `
+  SELECT epoch
+  FROM epochs_processing
+  WHERE epoch <= ${finalized} AND is_stored = 1 AND data_version = 'head'
+  ORDER BY epoch
+`;
+
+const differs = (columns: string[]): string => columns.map((c) => `ifNull(head.${c}, -1) != ifNull(fin.${c}, -1)`).join(' OR ');
+
+export const headAndFinalizedDiffQuery = (epoch: Epoch): string => `
+  SELECT
+    countIf(${differs(['att_happened', 'att_inc_delay', 'att_valid_head', 'att_valid_target', 'att_valid_source'])}) as attestation,
+    countIf(${differs(['is_proposer', 'block_proposed'])}) as propose,
+    countIf(${differs(['is_sync', 'sync_percent'])}) as sync,
+    countIf(${differs(['val_balance', 'val_slashed'])} OR head.val_status != fin.val_status) as state
+  FROM (
+    SELECT *
+    FROM validators_summary
+    WHERE epoch = ${epoch} AND data_version = 'head'
+    LIMIT 1 BY val_id
+  ) AS head
+  INNER JOIN (
+    SELECT *
+    FROM validators_summary
+    WHERE epoch = ${epoch} AND data_version = 'finalized'
+    LIMIT 1 BY val_id
+  ) AS fin
+  ON
+    fin.val_id = head.val_id
+`;
+
+export const epochsProcessingInRange = (from: Epoch, to: Epoch): string => `
+  SELECT epoch, is_stored, is_calculated
+  FROM epochs_processing
+  WHERE epoch >= ${from} AND epoch <= ${to}
+`;
+
+export const summaryEpochsInRange = (from: Epoch, to: Epoch): string => `
+  SELECT DISTINCT epoch
+  FROM validators_summary
+  WHERE epoch >= ${from} AND epoch <= ${to}
+`;
+
+export const storedEpochsInRange = (from: Epoch, to: Epoch): string => `
+  SELECT epoch
+  FROM epochs_processing
+  WHERE epoch >= ${from} AND epoch <= ${to} AND is_stored = 1
+`;
+
+// Live claims of other instances which were made before the claim of the holder
+const earlierClaims = (name: string, holder: string): string => `
+  SELECT count()
+  FROM leader_claims FINAL
+  WHERE name = '${name}' AND holder != '${holder}' AND expires_at > now64(3) AND (acquired_at, holder) < (
+    ifNull(
+      (SELECT minOrNull(acquired_at) FROM leader_claims FINAL WHERE name = '${name}' AND holder = '${holder}' AND expires_at > now64(3)),
+      now64(3)
+    ),
+    '${holder}'
+  )
+`;
+
+export const claimLeaderLeaseQuery = (name: string, holder: string, ttlSeconds: number): string => `
+  INSERT INTO leader_claims (name, holder, acquired_at, expires_at, updated_at)
+  SELECT
+    '${name}',
+    '${holder}',
+    -- live claim keeps its acquisition time, expired one is made again
+    ifNull(
+      (SELECT minOrNull(acquired_at) FROM leader_claims FINAL WHERE name = '${name}' AND holder = '${holder}' AND expires_at > now64(3)),
+      now64(3)
+    ),
+    now64(3) + toIntervalSecond(${ttlSeconds}),
+    now64(3)
+  WHERE (${earlierClaims(name, holder)}) = 0
+`;
+
+export const releaseLeaderLeaseQuery = (name: string, holder: string): string => `
+  INSERT INTO leader_claims (name, holder, acquired_at, expires_at, updated_at)
+  SELECT name, holder, acquired_at, now64(3), now64(3)
+  FROM leader_claims FINAL
+  WHERE name = '${name}' AND holder = '${holder}'
+`;
+
+// Concurrent claims are resolved the same way by all instances: the earliest live claim wins
+export const leaderLeaseHolderQuery = (name: string): string => `
+  SELECT holder
+  FROM leader_claims FINAL
+  WHERE name = '${name}' AND expires_at > now64(3)
+  ORDER BY acquired_at, holder
+  LIMIT 1
+`;
+
 export const userNodeOperatorsRewardsAndPenaltiesStats = (epoch: Epoch): string => `
   SELECT
     att.val_nos_module_id as val_nos_module_id,
@@ -597,19 +829,27 @@ export const userNodeOperatorsRewardsAndPenaltiesStats = (epoch: Epoch): string
     --
     att_reward + prop_reward + sync_reward as total_reward,
     att_missed + prop_missed + sync_missed as total_missed,
-    att_penalty + prop_penalty + sync_penalty as total_penalty,
+    ifNull(slashing_initial, 0) as slashing_initial_penalty,
+    ifNull(slashing_correlation, 0) as slashing_correlation_penalty,
+    ifNull(slashing_ongoing, 0) as slashing_ongoing_penalty,
+    --
+    -- ongoing slashing penalty of validators in committees is already in attestation one
+    att_penalty + prop_penalty + sync_penalty + slashing_initial_penalty + slashing_correlation_penalty +
+      ifNull(slashing_ongoing_out_of_committee, 0) as total_penalty,
     total_reward - total_penalty as calculated_balance_change,
     real_balance_change,
-    calculated_balance_change - real_balance_change as calculation_error
+    calculated_balance_change - real_balance_change as calculation_error,
+    effective_balance_eth
   FROM (
     SELECT
       val_nos_module_id,
       val_nos_id,
       sum(att_earned_reward) as attestation_reward,
       sum(att_missed_reward) as attestation_missed,
-      sum(att_penalty) as attestation_penalty
+      sum(att_penalty) as attestation_penalty,
+      intDiv(sumIf(val_effective_balance, val_status in [${perfStatuses}]), 1000000000) as effective_balance_eth
     FROM (
-      SELECT val_nos_module_id, val_nos_id, att_earned_reward, att_missed_reward, att_penalty
+      SELECT val_nos_module_id, val_nos_id, val_status, val_effective_balance, att_earned_reward, att_missed_reward, att_penalty
       FROM validators_summary
       WHERE val_nos_id IS NOT NULL AND val_stuck = 0 AND epoch = ${epoch} - 1
       LIMIT 1 BY val_id
@@ -652,6 +892,26 @@ export const userNodeOperatorsRewardsAndPenaltiesStats = (epoch: Epoch): string
   ON
     att.val_nos_module_id = sync.val_nos_module_id AND
     att.val_nos_id = sync.val_nos_id
+  LEFT JOIN (
+    SELECT
+      val_nos_module_id,
+      val_nos_id,
+      sumIf(slashing_initial_penalty, epoch = ${epoch}) as slashing_initial,
+      -- correlation penalty is applied on transition to the next epoch, as attestation ones
+      sumIf(slashing_correlation_penalty, epoch = ${epoch} - 1) as slashing_correlation,
+      sumIf(slashing_ongoing_penalty, epoch = ${epoch} - 1) as slashing_ongoing,
+      sumIf(slashing_ongoing_penalty, epoch = ${epoch} - 1 AND att_penalty IS NULL) as slashing_ongoing_out_of_committee
+    FROM (
+      SELECT epoch, val_nos_module_id, val_nos_id, slashing_initial_penalty, slashing_correlation_penalty, slashing_ongoing_penalty, att_penalty
+      FROM validators_summary
+      WHERE val_nos_id IS NOT NULL AND val_stuck = 0 AND val_slashed = 1 AND epoch IN (${epoch} - 1, ${epoch})
+      LIMIT 1 BY epoch, val_id
+    )
+    GROUP BY val_nos_module_id, val_nos_id
+  ) as slashing
+  ON
+    att.val_nos_module_id = slashing.val_nos_module_id AND
+    att.val_nos_id = slashing.val_nos_id
   LEFT JOIN (
     SELECT
       current.val_nos_module_id as val_nos_module_id,
@@ -700,6 +960,35 @@ export const userNodeOperatorsRewardsAndPenaltiesStats = (epoch: Epoch): string
     att.val_nos_id = bal.val_nos_id
 `;
 
+export const userNodeOperatorsRewardsDiscrepancyStats = (epoch: Epoch): string => `
+  SELECT
+    val_nos_module_id,
+    val_nos_id,
+    sumIf(
+      toInt64(ifNull(att_earned_reward, 0)) - toInt64(ifNull(att_penalty, 0)) - toInt64(att_api_reward) + toInt64(att_api_penalty),
+      epoch = ${epoch} - 1 AND att_api_reward IS NOT NULL
+    ) as att_discrepancy,
+    sumIf(
+      toInt64(ifNull(propose_earned_reward, 0)) - toInt64(propose_api_reward),
+      epoch = ${epoch} AND propose_api_reward IS NOT NULL
+    ) as prop_discrepancy,
+    sumIf(
+      toInt64(ifNull(sync_earned_reward, 0)) - toInt64(ifNull(sync_penalty, 0)) - toInt64(sync_api_reward) + toInt64(sync_api_penalty),
+      epoch = ${epoch} AND sync_api_reward IS NOT NULL
+    ) as sync_discrepancy
+  FROM (
+    SELECT
+      epoch, val_nos_module_id, val_nos_id,
+      att_earned_reward, att_penalty, att_api_reward, att_api_penalty,
+      propose_earned_reward, propose_api_reward,
+      sync_earned_reward, sync_penalty, sync_api_reward, sync_api_penalty
+    FROM validators_summary
+    WHERE val_nos_id IS NOT NULL AND val_stuck = 0 AND epoch IN (${epoch} - 1, ${epoch})
+    LIMIT 1 BY epoch, val_id
+  )
+  GROUP BY val_nos_module_id, val_nos_id
+`;
+
 export const avgChainRewardsAndPenaltiesStats = (epoch: Epoch): string => `
   SELECT
     attestation_reward as att_reward,
@@ -756,33 +1045,33 @@ export const userNodeOperatorsWithdrawalsStats = (epoch: Epoch): string => `
     ifNull(
       sumIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance == 0
+        val_balance_withdrawn > 0 AND ${isFullWithdrawal}
       ),
       0
     ) as full_withdrawn_sum,
     ifNull(
       sumIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance != 0
+        val_balance_withdrawn > 0 AND NOT ${isFullWithdrawal}
       ),
       0
     ) as partial_withdrawn_sum,
     ifNull(
       countIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance == 0
+        val_balance_withdrawn > 0 AND ${isFullWithdrawal}
       ),
       0
     ) as full_withdrawn_count,
     ifNull(
       countIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance != 0
+        val_balance_withdrawn > 0 AND NOT ${isFullWithdrawal}
       ),
       0
     ) as partial_withdrawn_count
   FROM (
-    SELECT val_balance_withdrawn, val_balance, val_id, val_nos_module_id, val_nos_id
+    SELECT val_balance_withdrawn, val_status, val_id, val_nos_module_id, val_nos_id
     FROM validators_summary
     WHERE
       val_nos_id IS NOT NULL AND
@@ -799,33 +1088,33 @@ export const otherChainWithdrawalsStats = (epoch: Epoch): string => `
     ifNull(
       sumIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance == 0
+        val_balance_withdrawn > 0 AND ${isFullWithdrawal}
       ),
       0
     ) as full_withdrawn_sum,
     ifNull(
       sumIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance != 0
+        val_balance_withdrawn > 0 AND NOT ${isFullWithdrawal}
       ),
       0
     ) as partial_withdrawn_sum,
     ifNull(
       countIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance == 0
+        val_balance_withdrawn > 0 AND ${isFullWithdrawal}
       ),
       0
     ) as full_withdrawn_count,
     ifNull(
       countIf(
         val_balance_withdrawn,
-        val_balance_withdrawn > 0 AND val_balance != 0
+        val_balance_withdrawn > 0 AND NOT ${isFullWithdrawal}
       ),
       0
     ) as partial_withdrawn_count
   FROM (
-    SELECT val_balance_withdrawn, val_balance, val_id, val_nos_id
+    SELECT val_balance_withdrawn, val_status, val_id, val_nos_id
     FROM validators_summary
     WHERE
       val_nos_id IS NULL AND
@@ -834,3 +1123,56 @@ export const otherChainWithdrawalsStats = (epoch: Epoch): string => `
     LIMIT 1 BY val_id
   )
 `;
+
+export const userNodeOperatorsExecutionRequestsStats = (epoch: Epoch): string => `
+  SELECT
+    val_nos_module_id,
+    val_nos_id,
+    request_type,
+    count() as count,
+    ifNull(sum(amount), 0) as amount
+  FROM (
+    SELECT slot, request_index, request_type, amount, val_nos_module_id, val_nos_id
+    FROM execution_requests
+    WHERE
+      val_nos_id IS NOT NULL AND
+      epoch = ${epoch}
+    LIMIT 1 BY slot, request_type, request_index
+  )
+  GROUP BY val_nos_module_id, val_nos_id, request_type
+`;
+
+export const otherChainExecutionRequestsStats = (epoch: Epoch): string => `
+  SELECT
+    request_type,
+    count() as count,
+    ifNull(sum(amount), 0) as amount
+  FROM (
+    SELECT slot, request_index, request_type, amount
+    FROM execution_requests
+    WHERE
+      val_nos_id IS NULL AND
+      epoch = ${epoch}
+    LIMIT 1 BY slot, request_type, request_index
+  )
+  GROUP BY request_type
+`;
+
+export const userNodeOperatorsPendingQueuesStats = (epoch: Epoch): string => `
+  SELECT
+    val_nos_module_id,
+    val_nos_id,
+    queue,
+    count() as count,
+    // 1-based to distinguish the first position from absence of items
+    min(position) + 1 as min_position
+  FROM (
+    SELECT queue, position, val_nos_module_id, val_nos_id
+    FROM pending_queues
+    WHERE
+      val_nos_id IS NOT NULL AND
+      epoch = ${epoch}
+    LIMIT 1 BY queue, position
+  )
+  GROUP BY val_nos_module_id, val_nos_id, queue
+`;
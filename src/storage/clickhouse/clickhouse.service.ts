@@ -1,8 +1,8 @@
 import { Readable, Transform } from 'stream';
 
-import { ClickHouseClient, createClient } from '@clickhouse/client';
+import { ClickHouseClient, InsertParams, createClient } from '@clickhouse/client';
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
-import { Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, LoggerService, OnApplicationShutdown, OnModuleInit } from '@nestjs/common';
 import { chain } from 'stream-chain';
 import { batch } from 'stream-json/utils/Batch';
 
@@ -12,22 +12,35 @@ import { allSettled } from 'common/functions/allSettled';
 import { retrier } from 'common/functions/retrier';
 import { unblock } from 'common/functions/unblock';
 import { PrometheusService, TrackTask } from 'common/prometheus';
-import { EpochMeta, ValidatorDutySummary } from 'duty/summary';
+import { EpochMeta, ExecutionRequest, PendingQueueItem, ValidatorDutySummary } from 'duty/summary';
 
 import {
   avgChainRewardsAndPenaltiesStats,
   avgValidatorBalanceDelta,
   chainSyncParticipationAvgPercentQuery,
+  claimLeaderLeaseQuery,
   epochMetadata,
   epochProcessing,
+  epochsProcessingInRange,
+  headAndFinalizedDiffQuery,
+  headEpochsFinalizedQuery,
+  leaderLeaseHolderQuery,
+  nonFinalizedEpochProcessing,
   operatorBalance24hDifferenceQuery,
   operatorsSyncParticipationAvgPercentsQuery,
+  otherChainExecutionRequestsStats,
   otherChainWithdrawalsStats,
   otherSyncParticipationAvgPercentQuery,
   otherValidatorsSummaryStatsQuery,
+  releaseLeaderLeaseQuery,
+  storedEpochsInRange,
+  summaryEpochsInRange,
   totalBalance24hDifferenceQuery,
+  userNodeOperatorsExecutionRequestsStats,
+  userNodeOperatorsPendingQueuesStats,
   userNodeOperatorsProposesStatsLastNEpochQuery,
   userNodeOperatorsRewardsAndPenaltiesStats,
+  userNodeOperatorsRewardsDiscrepancyStats,
   userNodeOperatorsStatsQuery,
   userNodeOperatorsWithdrawalsStats,
   userSyncParticipationAvgPercentQuery,
@@ -41,10 +54,16 @@ import {
 } from './clickhouse.constants';
 import {
   AvgChainRewardsStats,
+  DataVersion,
   EpochProcessingState,
+  ExecutionRequestsStats,
+  HeadAndFinalizedDiff,
   NOsBalance24hDiff,
-  NOsDelta,
+  NOsBalanceDelta,
+  NOsExecutionRequestsStats,
+  NOsPendingQueuesStats,
   NOsProposesStats,
+  NOsRewardsDiscrepancy,
   NOsValidatorsByConditionAttestationCount,
   NOsValidatorsByConditionProposeCount,
   NOsValidatorsNegDeltaCount,
@@ -65,19 +84,48 @@ import migration_000004_epoch_processing from './migrations/migration_000004_epo
 import migration_000005_withdrawals from './migrations/migration_000005_withdrawals';
 import migration_000006_stuck_validators from './migrations/migration_000006_stuck_validators';
 import migration_000007_module_id from './migrations/migration_000007_module_id';
+import migration_000008_epoch_processing_roots from './migrations/migration_000008_epoch_processing_roots';
+import migration_000009_summary_data_version from './migrations/migration_000009_summary_data_version';
+import migration_000010_epoch_meta_data_version from './migrations/migration_000010_epoch_meta_data_version';
+import migration_000011_epoch_processing_data_version from './migrations/migration_000011_epoch_processing_data_version';
+import migration_000012_leader_lease from './migrations/migration_000012_leader_lease';
+import migration_000013_rewards_api from './migrations/migration_000013_rewards_api';
+import migration_000014_execution_requests from './migrations/migration_000014_execution_requests';
+import migration_000015_pending_queues from './migrations/migration_000015_pending_queues';
+import migration_000016_epoch_meta_pending_queues from './migrations/migration_000016_epoch_meta_pending_queues';
+import migration_000017_withdrawal_credentials_type from './migrations/migration_000017_withdrawal_credentials_type';
+import migration_000018_inactivity_penalties from './migrations/migration_000018_inactivity_penalties';
+import migration_000019_epoch_meta_inactivity_leak from './migrations/migration_000019_epoch_meta_inactivity_leak';
+import migration_000020_slashing_penalties from './migrations/migration_000020_slashing_penalties';
+import migration_000021_data_version_sorting_keys from './migrations/migration_000021_data_version_sorting_keys';
+import migration_000022_leader_claims from './migrations/migration_000022_leader_claims';
+import migration_000023_drop_leader_lease from './migrations/migration_000023_drop_leader_lease';
+import migration_000024_slashing_ongoing_penalty from './migrations/migration_000024_slashing_ongoing_penalty';
 
 @Injectable()
-export class ClickhouseService implements OnModuleInit {
+export class ClickhouseService implements OnModuleInit, OnApplicationShutdown {
   private readonly db: ClickHouseClient;
   private readonly maxRetries: number;
   private readonly minBackoff: number;
   private readonly maxBackoff: number;
   private readonly retry: ReturnType<typeof retrier>;
+  private readonly inserts = new Set<Promise<unknown>>();
+  private readonly insertsAbort = new AbortController();
 
   private async select<T>(query: string): Promise<T> {
     return await (await this.retry(async () => await this.db.query({ query, format: 'JSONEachRow' }))).json<T>();
   }
 
+  private async insert<T>(params: InsertParams<T>): Promise<void> {
+    const insert = this.db.insert({ ...params, abort_signal: this.insertsAbort.signal });
+    this.inserts.add(insert);
+    try {
+      await insert;
+    } finally {
+      this.inserts.delete(insert);
+    }
+  }
+
   public constructor(
     @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
     protected readonly config: ConfigService,
@@ -108,6 +156,19 @@ export class ClickhouseService implements OnModuleInit {
     await this.retry(async () => await this.migrate());
   }
 
+  public async onApplicationShutdown(): Promise<void> {
+    if (this.inserts.size) this.logger.log(`Waiting for [${this.inserts.size}] in-flight inserts before shutdown`);
+    await Promise.allSettled(this.inserts);
+  }
+
+  /**
+   * Aborts in-flight inserts and rejects all the next ones
+   */
+  public async abortInserts(): Promise<void> {
+    this.insertsAbort.abort();
+    await Promise.allSettled(this.inserts);
+  }
+
   public async getLastProcessedEpoch(): Promise<EpochProcessingState> {
     const data = (
       await this.select<EpochProcessingState[]>(
@@ -131,10 +192,13 @@ export class ClickhouseService implements OnModuleInit {
   }
 
   @TrackTask('write-summary')
-  public async writeSummary(summary: IterableIterator<ValidatorDutySummary>): Promise<void> {
+  public async writeSummary(
+    summary: IterableIterator<ValidatorDutySummary>,
+    dataVersion: DataVersion = DataVersion.Finalized,
+  ): Promise<void> {
     const runWriteTasks = (stream: Readable): Promise<any>[] => {
       const indexes = this.retry(async () =>
-        this.db.insert({
+        this.insert({
           table: 'validators_index',
           values: stream.pipe(
             new Transform({
@@ -148,7 +212,7 @@ export class ClickhouseService implements OnModuleInit {
         }),
       );
       const summaries = this.retry(async () =>
-        this.db.insert({
+        this.insert({
           table: 'validators_summary',
           values: stream.pipe(
             new Transform({
@@ -161,8 +225,10 @@ export class ClickhouseService implements OnModuleInit {
                   propose_earned_reward: chunk.propose_earned_reward?.toString(),
                   propose_missed_reward: chunk.propose_missed_reward?.toString(),
                   propose_penalty: chunk.propose_penalty?.toString(),
+                  propose_api_reward: chunk.propose_api_reward?.toString(),
                   sync_meta: undefined,
                   val_pubkey: undefined,
+                  data_version: dataVersion,
                 });
               },
               objectMode: true,
@@ -190,10 +256,10 @@ export class ClickhouseService implements OnModuleInit {
   }
 
   @TrackTask('write-epoch-meta')
-  public async writeEpochMeta(epoch: Epoch, meta: EpochMeta): Promise<void> {
+  public async writeEpochMeta(epoch: Epoch, meta: EpochMeta, dataVersion: DataVersion = DataVersion.Finalized): Promise<void> {
     await this.retry(
       async () =>
-        await this.db.insert({
+        await this.insert({
           table: 'epochs_metadata',
           values: [
             {
@@ -201,12 +267,17 @@ export class ClickhouseService implements OnModuleInit {
               active_validators: meta.state.active_validators,
               active_validators_total_increments: meta.state.active_validators_total_increments.toString(),
               base_reward: meta.state.base_reward,
+              inactivity_leak: meta.state.inactivity_leak,
               att_blocks_rewards: Array.from(meta.attestation.blocks_rewards).map(([b, r]) => [b, r.toString()]),
               att_source_participation: meta.attestation.participation.source.toString(),
               att_target_participation: meta.attestation.participation.target.toString(),
               att_head_participation: meta.attestation.participation.head.toString(),
               sync_blocks_rewards: Array.from(meta.sync.blocks_rewards).map(([b, r]) => [b, r.toString()]),
               sync_blocks_to_sync: meta.sync.blocks_to_sync,
+              pending_deposits_count: meta.pending_queues.deposits_count,
+              pending_partial_withdrawals_count: meta.pending_queues.partial_withdrawals_count,
+              pending_consolidations_count: meta.pending_queues.consolidations_count,
+              data_version: dataVersion,
             },
           ],
           format: 'JSONEachRow',
@@ -214,24 +285,95 @@ export class ClickhouseService implements OnModuleInit {
     );
   }
 
+  @TrackTask('write-execution-requests')
+  public async writeExecutionRequests(
+    epoch: Epoch,
+    requests: ExecutionRequest[],
+    dataVersion: DataVersion = DataVersion.Finalized,
+  ): Promise<void> {
+    if (!requests.length) return;
+    await this.retry(
+      async () =>
+        await this.insert({
+          table: 'execution_requests',
+          values: requests.map((r) => ({ ...r, epoch, amount: r.amount?.toString(), data_version: dataVersion })),
+          format: 'JSONEachRow',
+        }),
+    );
+  }
+
+  @TrackTask('write-pending-queues')
+  public async writePendingQueues(
+    epoch: Epoch,
+    items: PendingQueueItem[],
+    dataVersion: DataVersion = DataVersion.Finalized,
+  ): Promise<void> {
+    if (!items.length) return;
+    await this.retry(
+      async () =>
+        await this.insert({
+          table: 'pending_queues',
+          values: items.map((i) => ({ ...i, epoch, amount: i.amount?.toString(), data_version: dataVersion })),
+          format: 'JSONEachRow',
+        }),
+    );
+  }
+
   @TrackTask('update-epoch-processing')
   public async updateEpochProcessing(state: EpochProcessingState): Promise<void> {
-    const old = await this.getOrInitEpochProcessing(state.epoch);
-    const updates = [];
-    if (state.is_stored != undefined) updates.push(`is_stored = ${+state.is_stored}`);
-    if (state.is_calculated != undefined) updates.push(`is_calculated = ${+state.is_calculated}`);
+    await this.getOrInitEpochProcessing(state.epoch);
+    const { epoch, ...fields } = state;
+    // booleans are stored as UInt8
+    const toUpdate = Object.entries(fields)
+      .filter(([, value]) => value != undefined)
+      .map(([field, value]) => [field, typeof value == 'boolean' ? +value : value]);
+    const updates = toUpdate.map(([field, value]) => `${field} = ${typeof value == 'string' ? `'${value}'` : value}`);
     await this.retry(
-      async () => await this.db.exec({ query: `ALTER TABLE epochs_processing UPDATE ${updates.join(', ')} WHERE epoch = ${state.epoch}` }),
+      async () => await this.db.exec({ query: `ALTER TABLE epochs_processing UPDATE ${updates.join(', ')} WHERE epoch = ${epoch}` }),
     );
     // update is heavy operation for clickhouse, and it takes some time
     await this.retry(async () => {
-      const updated = await this.getOrInitEpochProcessing(state.epoch);
-      if (old.is_stored == updated.is_stored && old.is_calculated == updated.is_calculated) {
+      const updated = await this.getOrInitEpochProcessing(epoch);
+      if (toUpdate.some(([field, value]) => updated[field] != value)) {
         throw Error('Epoch processing info is not updated yet');
       }
     });
   }
 
+  /**
+   * Removes all stored data of epochs in the range. If `to` is not passed, all epochs starting from `from` are removed.
+   * Processing state is removed last, so interrupted removal will be continued by processing the epochs again
+   */
+  @TrackTask('delete-epochs')
+  public async deleteEpochs(from: Epoch, to?: Epoch): Promise<void> {
+    const condition = to == undefined ? `epoch >= ${from}` : `epoch >= ${from} AND epoch <= ${to}`;
+    for (const table of ['validators_summary', 'epochs_metadata', 'execution_requests', 'pending_queues', 'epochs_processing']) {
+      await this.retry(
+        async () =>
+          await this.db.exec({
+            query: `ALTER TABLE ${table} DELETE WHERE ${condition}`,
+            clickhouse_settings: { mutations_sync: '1' },
+          }),
+      );
+    }
+  }
+
+  /**
+   * Removes summary and metadata of the epoch calculated from the given chain state
+   */
+  @TrackTask('delete-epoch-data-version')
+  public async deleteEpochDataVersion(epoch: Epoch, dataVersion: DataVersion): Promise<void> {
+    for (const table of ['validators_summary', 'epochs_metadata', 'execution_requests', 'pending_queues']) {
+      await this.retry(
+        async () =>
+          await this.db.exec({
+            query: `ALTER TABLE ${table} DELETE WHERE epoch = ${epoch} AND data_version = '${dataVersion}'`,
+            clickhouse_settings: { mutations_sync: '1' },
+          }),
+      );
+    }
+  }
+
   public async migrate(): Promise<void> {
     this.logger.log('Running migrations');
     const migrations = [
@@ -243,23 +385,71 @@ export class ClickhouseService implements OnModuleInit {
       migration_000005_withdrawals,
       migration_000006_stuck_validators,
       migration_000007_module_id,
+      migration_000008_epoch_processing_roots,
+      migration_000009_summary_data_version,
+      migration_000010_epoch_meta_data_version,
+      migration_000011_epoch_processing_data_version,
+      migration_000012_leader_lease,
+      migration_000013_rewards_api,
+      migration_000014_execution_requests,
+      migration_000015_pending_queues,
+      migration_000016_epoch_meta_pending_queues,
+      migration_000017_withdrawal_credentials_type,
+      migration_000018_inactivity_penalties,
+      migration_000019_epoch_meta_inactivity_leak,
+      migration_000020_slashing_penalties,
+      migration_000022_leader_claims,
+      migration_000023_drop_leader_lease,
+      migration_000024_slashing_ongoing_penalty,
     ];
     for (const query of migrations) {
       await this.db.exec({ query });
     }
+    for (const [table, sortingKey] of Object.entries(migration_000021_data_version_sorting_keys)) {
+      await this.rebuildWithSortingKey(table, sortingKey);
+    }
   }
 
-  public async getAvgValidatorBalanceDelta(epoch: Epoch): Promise<NOsDelta[]> {
-    return (await this.select<NOsDelta[]>(avgValidatorBalanceDelta(epoch))).map((v) => ({
+  /**
+   * Recreates the table with the new sorting key and copies data to it partition by partition.
+   * Interrupted rebuild is started again from scratch, the original table is replaced only when all data is copied
+   */
+  private async rebuildWithSortingKey(table: string, sortingKey: string): Promise<void> {
+    const rebuilt = `${table}_rebuilt`;
+    const [current] = await this.select<{ sorting_key: string; partition_key: string }[]>(
+      `SELECT sorting_key, partition_key FROM system.tables WHERE database = currentDatabase() AND name = '${table}'`,
+    );
+    if (current.sorting_key != sortingKey) {
+      this.logger.warn(`Rebuilding table [${table}] with sorting key [${sortingKey}]. It may take a while`);
+      const partitionBy = current.partition_key ? `PARTITION BY ${current.partition_key}` : '';
+      await this.db.exec({ query: `DROP TABLE IF EXISTS ${rebuilt}` });
+      await this.db.exec({
+        query: `CREATE TABLE ${rebuilt} AS ${table} ENGINE = ReplacingMergeTree() ORDER BY (${sortingKey}) ${partitionBy}`,
+      });
+      const partitions = await this.select<{ partition_id: string }[]>(
+        `SELECT DISTINCT partition_id FROM system.parts WHERE database = currentDatabase() AND table = '${table}' AND active`,
+      );
+      for (const { partition_id } of partitions) {
+        await this.db.exec({ query: `INSERT INTO ${rebuilt} SELECT * FROM ${table} WHERE _partition_id = '${partition_id}'` });
+      }
+      await this.db.exec({ query: `EXCHANGE TABLES ${table} AND ${rebuilt}` });
+    }
+    await this.db.exec({ query: `DROP TABLE IF EXISTS ${rebuilt}` });
+  }
+
+  public async getAvgValidatorBalanceDelta(epoch: Epoch): Promise<NOsBalanceDelta[]> {
+    return (await this.select<NOsBalanceDelta[]>(avgValidatorBalanceDelta(epoch))).map((v) => ({
       ...v,
       amount: Number(v.amount),
+      amount_per_32_eth: Number(v.amount_per_32_eth),
     }));
   }
 
-  public async getValidatorQuantile0001BalanceDeltas(epoch: Epoch): Promise<NOsDelta[]> {
-    return (await this.select<NOsDelta[]>(validatorQuantile0001BalanceDeltasQuery(epoch))).map((v) => ({
+  public async getValidatorQuantile0001BalanceDeltas(epoch: Epoch): Promise<NOsBalanceDelta[]> {
+    return (await this.select<NOsBalanceDelta[]>(validatorQuantile0001BalanceDeltasQuery(epoch))).map((v) => ({
       ...v,
       amount: Number(v.amount),
+      amount_per_32_eth: Number(v.amount_per_32_eth),
     }));
   }
 
@@ -594,6 +784,7 @@ export class ClickhouseService implements OnModuleInit {
         active_validators: Number(ret['active_validators']),
         active_validators_total_increments: BigInt(ret['active_validators_total_increments']),
         base_reward: Number(ret['base_reward']),
+        inactivity_leak: Number(ret['inactivity_leak']) == 1,
       };
       metadata['attestation'] = {
         blocks_rewards: new Map(ret['att_blocks_rewards'].map(([b, r]) => [Number(b), BigInt(r)])),
@@ -607,6 +798,11 @@ export class ClickhouseService implements OnModuleInit {
         blocks_rewards: new Map(ret['sync_blocks_rewards'].map(([b, r]) => [Number(b), BigInt(r)])),
         blocks_to_sync: ret['sync_blocks_to_sync'].map((b) => Number(b)),
       };
+      metadata['pending_queues'] = {
+        deposits_count: Number(ret['pending_deposits_count']),
+        partial_withdrawals_count: Number(ret['pending_partial_withdrawals_count']),
+        consolidations_count: Number(ret['pending_consolidations_count']),
+      };
     }
     return metadata;
   }
@@ -616,7 +812,7 @@ export class ClickhouseService implements OnModuleInit {
     if (curr.epoch == 0) {
       await this.retry(
         async () =>
-          await this.db.insert({
+          await this.insert({
             table: 'epochs_processing',
             values: [{ epoch }],
             format: 'JSONEachRow',
@@ -634,6 +830,58 @@ export class ClickhouseService implements OnModuleInit {
     return { epoch: 0, is_stored: undefined, is_calculated: undefined };
   }
 
+  public async getNonFinalizedEpochProcessing(finalized: Epoch): Promise<EpochProcessingState[]> {
+    return (await this.select<EpochProcessingState[]>(nonFinalizedEpochProcessing(finalized))).map((v) => ({
+      ...v,
+      epoch: Number(v.epoch),
+      state_slot: Number(v.state_slot),
+    }));
+  }
+
+  public async getHeadEpochsFinalized(finalized: Epoch): Promise<Epoch[]> {
+    return (await this.select<{ epoch: Epoch }[]>(headEpochsFinalizedQuery(finalized))).map((v) => Number(v.epoch));
+  }
+
+  public async getHeadAndFinalizedDiff(epoch: Epoch): Promise<HeadAndFinalizedDiff> {
+    const ret = (await this.select<HeadAndFinalizedDiff[]>(headAndFinalizedDiffQuery(epoch)))[0];
+    return {
+      attestation: Number(ret?.attestation ?? 0),
+      propose: Number(ret?.propose ?? 0),
+      sync: Number(ret?.sync ?? 0),
+      state: Number(ret?.state ?? 0),
+    };
+  }
+
+  public async getEpochsProcessingInRange(from: Epoch, to: Epoch): Promise<EpochProcessingState[]> {
+    return (await this.select<EpochProcessingState[]>(epochsProcessingInRange(from, to))).map((v) => ({ ...v, epoch: Number(v.epoch) }));
+  }
+
+  public async getSummaryEpochsInRange(from: Epoch, to: Epoch): Promise<Epoch[]> {
+    return (await this.select<{ epoch: Epoch }[]>(summaryEpochsInRange(from, to))).map((v) => Number(v.epoch));
+  }
+
+  public async getStoredEpochsInRange(from: Epoch, to: Epoch): Promise<Epoch[]> {
+    return (await this.select<{ epoch: Epoch }[]>(storedEpochsInRange(from, to))).map((v) => Number(v.epoch));
+  }
+
+  /**
+   * Claims the lease if there are no live claims made before the claim of the holder. Several instances can claim
+   * the lease at the same time, so the current holder must be read by `getLeaderLeaseHolder` after that.
+   * Lease time is taken from DB server, so clocks of instances don't matter
+   */
+  @TrackTask('claim-leader-lease')
+  public async claimLeaderLease(name: string, holder: string, ttlSeconds: number): Promise<void> {
+    await this.retry(async () => await this.db.exec({ query: claimLeaderLeaseQuery(name, holder, ttlSeconds) }));
+  }
+
+  public async getLeaderLeaseHolder(name: string): Promise<string | undefined> {
+    return (await this.select<{ holder: string }[]>(leaderLeaseHolderQuery(name)))[0]?.holder;
+  }
+
+  public async releaseLeaderLease(name: string, holder: string): Promise<void> {
+    await this.retry(async () => await this.db.exec({ query: releaseLeaderLeaseQuery(name, holder) }));
+  }
+
   public async getUserNodeOperatorsRewardsAndPenaltiesStats(epoch: Epoch): Promise<NOsValidatorsRewardsStats[]> {
     return (await this.select<NOsValidatorsRewardsStats[]>(userNodeOperatorsRewardsAndPenaltiesStats(epoch))).map((v) => ({
       ...v,
@@ -652,6 +900,19 @@ export class ClickhouseService implements OnModuleInit {
       calculated_balance_change: +v.calculated_balance_change,
       real_balance_change: +v.real_balance_change,
       calculation_error: +v.calculation_error,
+      effective_balance_eth: +v.effective_balance_eth,
+      slashing_initial_penalty: +v.slashing_initial_penalty,
+      slashing_correlation_penalty: +v.slashing_correlation_penalty,
+      slashing_ongoing_penalty: +v.slashing_ongoing_penalty,
+    }));
+  }
+
+  public async getUserNodeOperatorsRewardsDiscrepancyStats(epoch: Epoch): Promise<NOsRewardsDiscrepancy[]> {
+    return (await this.select<NOsRewardsDiscrepancy[]>(userNodeOperatorsRewardsDiscrepancyStats(epoch))).map((v) => ({
+      ...v,
+      att_discrepancy: +v.att_discrepancy,
+      prop_discrepancy: +v.prop_discrepancy,
+      sync_discrepancy: +v.sync_discrepancy,
     }));
   }
 
@@ -688,4 +949,28 @@ export class ClickhouseService implements OnModuleInit {
       partial_withdrawn_count: +v.partial_withdrawn_count,
     }))[0];
   }
+
+  public async getUserNodeOperatorsExecutionRequestsStats(epoch: Epoch): Promise<NOsExecutionRequestsStats[]> {
+    return (await this.select<NOsExecutionRequestsStats[]>(userNodeOperatorsExecutionRequestsStats(epoch))).map((v) => ({
+      ...v,
+      count: +v.count,
+      amount: +v.amount,
+    }));
+  }
+
+  public async getOtherChainExecutionRequestsStats(epoch: Epoch): Promise<ExecutionRequestsStats[]> {
+    return (await this.select<ExecutionRequestsStats[]>(otherChainExecutionRequestsStats(epoch))).map((v) => ({
+      ...v,
+      count: +v.count,
+      amount: +v.amount,
+    }));
+  }
+
+  public async getUserNodeOperatorsPendingQueuesStats(epoch: Epoch): Promise<NOsPendingQueuesStats[]> {
+    return (await this.select<NOsPendingQueuesStats[]>(userNodeOperatorsPendingQueuesStats(epoch))).map((v) => ({
+      ...v,
+      count: +v.count,
+      min_position: +v.min_position,
+    }));
+  }
 }
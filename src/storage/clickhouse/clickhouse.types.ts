@@ -1,4 +1,4 @@
-import { Epoch } from 'common/consensus-provider/types';
+import { Epoch, Slot } from 'common/consensus-provider/types';
 
 export interface ValidatorsStatusStats {
   val_nos_module_id?: string;
@@ -16,6 +16,11 @@ export interface NOsDelta {
   amount: number;
 }
 
+export interface NOsBalanceDelta extends NOsDelta {
+  // delta of validator with effective balance above 32 ETH is scaled to the delta of 32 ETH validator
+  amount_per_32_eth: number;
+}
+
 export interface NOsValidatorsNegDeltaCount {
   val_nos_module_id: string;
   val_nos_id: string;
@@ -74,6 +79,20 @@ export interface NOsValidatorsRewardsStats {
   calculated_balance_change: number;
   real_balance_change: number;
   calculation_error: number;
+  // effective balance of active validators in ETH, validators with compounding credentials have up to 2048 ETH
+  effective_balance_eth: number;
+  slashing_initial_penalty: number;
+  slashing_correlation_penalty: number;
+  // attestation penalties of slashed validators, they are included in att_penalty
+  slashing_ongoing_penalty: number;
+}
+
+export interface NOsRewardsDiscrepancy {
+  val_nos_module_id: string;
+  val_nos_id: string;
+  att_discrepancy: number;
+  prop_discrepancy: number;
+  sync_discrepancy: number;
 }
 
 export interface AvgChainRewardsStats {
@@ -100,10 +119,24 @@ export interface SyncCommitteeParticipationAvgPercents {
   amount: number;
 }
 
+/**
+ * Which chain state the stored data was calculated from
+ */
+export enum DataVersion {
+  Head = 'head',
+  Finalized = 'finalized',
+}
+
 export interface EpochProcessingState {
   epoch: Epoch;
   is_stored?: boolean;
   is_calculated?: boolean;
+  data_version?: DataVersion;
+  // block roots which the stored epoch data depends on. Used to detect reorgs
+  state_slot?: Slot;
+  state_slot_root?: string;
+  proposer_dependent_root?: string;
+  attester_dependent_root?: string;
 }
 
 export interface WithdrawalsStats {
@@ -116,3 +149,28 @@ export interface NOsWithdrawalsStats extends WithdrawalsStats {
   val_nos_module_id: string;
   val_nos_id: string;
 }
+
+export interface HeadAndFinalizedDiff {
+  attestation: number;
+  propose: number;
+  sync: number;
+  state: number;
+}
+
+export interface ExecutionRequestsStats {
+  request_type: string;
+  count: number;
+  amount: number;
+}
+export interface NOsExecutionRequestsStats extends ExecutionRequestsStats {
+  val_nos_module_id: string;
+  val_nos_id: string;
+}
+
+export interface NOsPendingQueuesStats {
+  val_nos_module_id: string;
+  val_nos_id: string;
+  queue: string;
+  count: number;
+  min_position: number;
+}
@@ -0,0 +1,9 @@
+const sql = `
+ALTER TABLE epochs_processing
+ADD COLUMN IF NOT EXISTS state_slot Nullable(Int64),
+ADD COLUMN IF NOT EXISTS state_slot_root Nullable(String),
+ADD COLUMN IF NOT EXISTS proposer_dependent_root Nullable(String),
+ADD COLUMN IF NOT EXISTS attester_dependent_root Nullable(String)
+`;
+
+export default sql;
@@ -0,0 +1,6 @@
+const sql = `
+ALTER TABLE epochs_processing
+ADD COLUMN IF NOT EXISTS data_version LowCardinality(String) DEFAULT 'finalized'
+`;
+
+export default sql;
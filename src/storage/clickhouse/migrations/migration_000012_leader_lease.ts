@@ -0,0 +1,11 @@
+const sql = `
+CREATE TABLE IF NOT EXISTS leader_lease (
+    "name" String,
+    "holder" String,
+    "expires_at" DateTime64(3),
+    "updated_at" DateTime64(3)
+)
+ENGINE = ReplacingMergeTree(updated_at)
+ORDER BY name
+`;
+export default sql;
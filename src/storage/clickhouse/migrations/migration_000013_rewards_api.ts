@@ -0,0 +1,13 @@
+const sql = `
+ALTER TABLE validators_summary
+// att
+ADD COLUMN IF NOT EXISTS att_api_reward Nullable(UInt64) AFTER att_penalty,
+ADD COLUMN IF NOT EXISTS att_api_penalty Nullable(UInt64) AFTER att_api_reward,
+// sync
+ADD COLUMN IF NOT EXISTS sync_api_reward Nullable(UInt64) AFTER sync_penalty,
+ADD COLUMN IF NOT EXISTS sync_api_penalty Nullable(UInt64) AFTER sync_api_reward,
+// propose
+ADD COLUMN IF NOT EXISTS propose_api_reward Nullable(UInt64) AFTER propose_penalty
+`;
+
+export default sql;
@@ -0,0 +1,20 @@
+const sql = `
+CREATE TABLE IF NOT EXISTS execution_requests (
+    "epoch" Int64,
+    "slot" Int64,
+    "request_index" UInt32,
+    "request_type" LowCardinality(String),
+    "val_pubkey" String,
+    "target_pubkey" Nullable(String),
+    "address" String,
+    "amount" Nullable(UInt64),
+    "val_nos_module_id" Nullable(UInt32),
+    "val_nos_id" Nullable(UInt32),
+    "val_nos_name" Nullable(String),
+    "data_version" LowCardinality(String) DEFAULT 'finalized',
+    INDEX epoch_index (epoch) TYPE minmax GRANULARITY 8192
+)
+ENGINE = ReplacingMergeTree()
+ORDER BY (epoch, slot, request_type, request_index)
+`;
+export default sql;
@@ -0,0 +1,19 @@
+const sql = `
+CREATE TABLE IF NOT EXISTS pending_queues (
+    "epoch" Int64,
+    "queue" LowCardinality(String),
+    "position" UInt64,
+    "val_id" Nullable(Int64),
+    "val_pubkey" Nullable(String),
+    "target_val_id" Nullable(Int64),
+    "amount" Nullable(UInt64),
+    "val_nos_module_id" Nullable(UInt32),
+    "val_nos_id" Nullable(UInt32),
+    "val_nos_name" Nullable(String),
+    "data_version" LowCardinality(String) DEFAULT 'finalized',
+    INDEX epoch_index (epoch) TYPE minmax GRANULARITY 8192
+)
+ENGINE = ReplacingMergeTree()
+ORDER BY (epoch, queue, position)
+`;
+export default sql;
@@ -0,0 +1,8 @@
+const sql = `
+ALTER TABLE epochs_metadata
+ADD COLUMN IF NOT EXISTS pending_deposits_count UInt64 DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pending_partial_withdrawals_count UInt64 DEFAULT 0,
+ADD COLUMN IF NOT EXISTS pending_consolidations_count UInt64 DEFAULT 0
+`;
+
+export default sql;
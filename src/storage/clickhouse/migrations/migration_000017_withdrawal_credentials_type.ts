@@ -0,0 +1,6 @@
+const sql = `
+ALTER TABLE validators_summary
+ADD COLUMN IF NOT EXISTS val_withdrawal_credentials_type Nullable(UInt8) AFTER val_effective_balance
+`;
+
+export default sql;
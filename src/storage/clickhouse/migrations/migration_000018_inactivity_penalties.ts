@@ -0,0 +1,7 @@
+const sql = `
+ALTER TABLE validators_summary
+ADD COLUMN IF NOT EXISTS val_inactivity_score Nullable(UInt64) AFTER val_withdrawal_credentials_type,
+ADD COLUMN IF NOT EXISTS att_inactivity_penalty Nullable(UInt64) AFTER att_penalty
+`;
+
+export default sql;
@@ -0,0 +1,6 @@
+const sql = `
+ALTER TABLE epochs_metadata
+ADD COLUMN IF NOT EXISTS inactivity_leak UInt8 DEFAULT 0 AFTER base_reward
+`;
+
+export default sql;
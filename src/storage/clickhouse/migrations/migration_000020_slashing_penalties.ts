@@ -0,0 +1,7 @@
+const sql = `
+ALTER TABLE validators_summary
+ADD COLUMN IF NOT EXISTS slashing_initial_penalty Nullable(UInt64) AFTER propose_api_reward,
+ADD COLUMN IF NOT EXISTS slashing_correlation_penalty Nullable(UInt64) AFTER slashing_initial_penalty
+`;
+
+export default sql;
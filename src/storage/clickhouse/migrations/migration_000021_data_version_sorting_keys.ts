@@ -0,0 +1,13 @@
+/**
+ * Rows calculated from head and finalized states of the same epoch are stored together until reconciliation is completed,
+ * so they must not replace each other. Sorting key of existing columns can't be changed by `ALTER`, so the tables are rebuilt
+ * Processing state is kept for the latest data version only, so `epochs_processing` isn't changed
+ */
+const sortingKeys: Record<string, string> = {
+  validators_summary: 'epoch, val_id, data_version',
+  epochs_metadata: 'epoch, data_version',
+  execution_requests: 'epoch, slot, request_type, request_index, data_version',
+  pending_queues: 'epoch, queue, position, data_version',
+};
+
+export default sortingKeys;
@@ -0,0 +1,12 @@
+const sql = `
+CREATE TABLE IF NOT EXISTS leader_claims (
+    "name" String,
+    "holder" String,
+    "acquired_at" DateTime64(3),
+    "expires_at" DateTime64(3),
+    "updated_at" DateTime64(3)
+)
+ENGINE = ReplacingMergeTree(updated_at)
+ORDER BY (name, holder)
+`;
+export default sql;
@@ -0,0 +1,4 @@
+const sql = `
+DROP TABLE IF EXISTS leader_lease
+`;
+export default sql;
@@ -0,0 +1,6 @@
+const sql = `
+ALTER TABLE validators_summary
+ADD COLUMN IF NOT EXISTS slashing_ongoing_penalty Nullable(UInt64) AFTER slashing_correlation_penalty
+`;
+
+export default sql;
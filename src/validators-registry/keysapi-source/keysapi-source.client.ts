@@ -138,8 +138,10 @@ export class KeysapiSourceClient {
 
   @TrackKeysAPIRequest
   protected async apiGet<T>(apiURL: string, subUrl: string): Promise<T> {
+    const { url, headers } = this.config.getApiAuth(apiURL);
     const res = await got
-      .get(urljoin(apiURL, subUrl), {
+      .get(urljoin(url, subUrl), {
+        headers,
         timeout: { ...REQUEST_TIMEOUT_POLICY_MS, response: this.config.get('VALIDATOR_REGISTRY_KEYSAPI_SOURCE_RESPONSE_TIMEOUT') },
       })
       .catch((e) => {
@@ -160,7 +162,9 @@ export class KeysapiSourceClient {
 
   @TrackKeysAPIRequest
   protected async apiGetStream(apiURL: string, subUrl: string): Promise<Request> {
-    const readStream = got.stream.get(urljoin(apiURL, subUrl), {
+    const { url, headers } = this.config.getApiAuth(apiURL);
+    const readStream = got.stream.get(urljoin(url, subUrl), {
+      headers,
       timeout: { ...REQUEST_TIMEOUT_POLICY_MS, response: this.config.get('VALIDATOR_REGISTRY_KEYSAPI_SOURCE_RESPONSE_TIMEOUT') },
     });
 
@@ -43,7 +43,10 @@ const testSyncMember = {
     att_earned_reward: 14263,
     att_missed_reward: 0,
     att_penalty: 0,
+    att_inactivity_penalty: 0,
     val_effective_balance: '32000000000',
+    val_withdrawal_credentials_type: 1,
+    val_inactivity_score: 0,
     sync_earned_reward: 362525,
     sync_missed_reward: 101507,
     sync_penalty: 101507,
@@ -82,7 +85,10 @@ const testProposerMember = {
     att_earned_reward: 10673,
     att_missed_reward: 3590,
     att_penalty: 0,
+    att_inactivity_penalty: 0,
     val_effective_balance: '32000000000',
+    val_withdrawal_credentials_type: 1,
+    val_inactivity_score: 0,
     propose_earned_reward: '29021765',
     propose_missed_reward: '0',
     propose_penalty: '0',